@@ -0,0 +1,114 @@
+import * as crypto from 'crypto';
+
+// Support for the baseline file that records the existing failures of a workspace folder. The failures matching
+// an entry of the baseline are not shown, so that stricter rules can be enabled without reporting the old failures.
+
+export const baselineFileName = '.tslint-baseline.json';
+
+const baselineVersion = 1;
+
+export interface BaselineEntry {
+	// the path of the file relative to the workspace folder using forward slashes
+	file: string;
+	rule: string;
+	// identifies the failure independent of its line, see getFingerprint()
+	fingerprint: string;
+}
+
+export interface Baseline {
+	version: number;
+	entries: BaselineEntry[];
+}
+
+/**
+ * A failure of a file, the start and end are offsets in the text of the file
+ */
+export interface BaselineFailure {
+	rule: string;
+	message: string;
+	start: number;
+	end: number;
+}
+
+function normalizeWhitespace(text: string): string {
+	return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Computes the fingerprint of a failure from its message, the failing text and the text of the lines containing
+ * it. The fingerprint does not depend on the position of the failure or its indentation, so that it survives
+ * inserting or removing lines elsewhere in the file.
+ */
+export function getFingerprint(text: string, failure: BaselineFailure): string {
+	let lineStart = failure.start > 0 ? text.lastIndexOf('\n', failure.start - 1) + 1 : 0;
+	let lineEnd = text.indexOf('\n', failure.end);
+	let lines = text.substring(lineStart, lineEnd === -1 ? text.length : lineEnd);
+	let failingText = text.substring(failure.start, failure.end);
+	return crypto.createHash('sha1')
+		.update([failure.rule, failure.message, normalizeWhitespace(lines), normalizeWhitespace(failingText)].join('\0'))
+		.digest('hex')
+		.substring(0, 16);
+}
+
+/**
+ * Parse the contents of a baseline file, undefined when the contents are not a baseline
+ */
+export function parseBaseline(text: string): Baseline | undefined {
+	let baseline: Baseline;
+	try {
+		baseline = JSON.parse(text);
+	} catch {
+		return undefined;
+	}
+	if (!baseline || typeof baseline !== 'object' || !Array.isArray(baseline.entries)) {
+		return undefined;
+	}
+	let entries = baseline.entries.filter(each => each && typeof each.file === 'string' && typeof each.rule === 'string' && typeof each.fingerprint === 'string');
+	return { version: baseline.version, entries };
+}
+
+/**
+ * Returns the contents of a baseline file with the given entries. The entries are sorted so that recreating the
+ * baseline results in small changes.
+ */
+export function formatBaseline(entries: BaselineEntry[]): string {
+	let sorted = entries
+		.map(each => ({ file: each.file, rule: each.rule, fingerprint: each.fingerprint }))
+		.sort((a, b) => compare(a.file, b.file) || compare(a.rule, b.rule) || compare(a.fingerprint, b.fingerprint));
+	let baseline: Baseline = { version: baselineVersion, entries: sorted };
+	return JSON.stringify(baseline, undefined, 2) + '\n';
+}
+
+function compare(a: string, b: string): number {
+	return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Replace the entries of the files in a folder of the workspace folder, the folder is relative to the
+ * workspace folder and empty for the workspace folder itself.
+ */
+export function replaceBaselineEntries(existing: BaselineEntry[], folder: string, entries: BaselineEntry[]): BaselineEntry[] {
+	let prefix = folder && !folder.endsWith('/') ? `${folder}/` : folder;
+	return existing.filter(each => !each.file.startsWith(prefix)).concat(entries);
+}
+
+/**
+ * Match the failures of a file with the entries of the baseline for the file. Each entry matches a single failure,
+ * so that new failures are shown when a file has more failures with the same fingerprint than recorded. The entries
+ * that do not match a failure are stale, e.g. since the failure has been fixed.
+ */
+export function applyBaseline<T>(entries: BaselineEntry[], failures: T[], getEntry: (failure: T) => { rule: string, fingerprint: string }): { shown: T[], stale: BaselineEntry[] } {
+	let remaining = new Map<string, BaselineEntry[]>();
+	for (let entry of entries) {
+		let key = `${entry.rule}:${entry.fingerprint}`;
+		remaining.set(key, (remaining.get(key) || []).concat(entry));
+	}
+	let shown = failures.filter(each => {
+		let entry = getEntry(each);
+		let matching = remaining.get(`${entry.rule}:${entry.fingerprint}`);
+		return !matching || !matching.shift();
+	});
+	let stale: BaselineEntry[] = [];
+	remaining.forEach(each => stale.push(...each));
+	return { shown, stale };
+}
@@ -0,0 +1,199 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+'use strict';
+
+// Runs the TsLintRunner from the command line using the same configuration semantics as the editor.
+//
+// Usage: node cli.js [options] <file or folder>...
+//
+// The results are written as JSON to stdout. The exit code is 0 when no rule failure with the severity
+// 'error' was found, 1 when the command line is invalid or a file could not be linted, and 2 when there
+// are rule failures with the severity 'error'.
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { RunConfiguration, TsLintRunner } from './runner';
+import { SerializedRuleFailure, serializeRuleFailure } from './serialization';
+import { findWorkspaceFiles } from './workspaceFiles';
+
+const usage = [
+	'Usage: node cli.js [options] <file or folder>...',
+	'',
+	'Options:',
+	'  --config <path>                  the configuration file to use instead of the closest tslint.json (tslint.configFile)',
+	'  --rules-dir <path>               an additional rules directory, can be repeated (tslint.rulesDirectory)',
+	'  --exclude <glob>                 a glob pattern of absolute file paths to exclude, can be repeated (tslint.exclude)',
+	'  --no-ignore-definition-files     lint .d.ts files (tslint.ignoreDefinitionFiles)',
+	'  --validate-with-default-config   lint files for which no tslint.json is found (tslint.validateWithDefaultConfig)',
+	'  --js                             lint JavaScript files (tslint.jsEnable)',
+	'  --node-path <path>               a path added to NODE_PATH when resolving the tslint module (tslint.nodePath)',
+	'  --package-manager <npm|yarn>     the package manager used to locate a global tslint module (tslint.packageManager)',
+	'  --workspace-folder <path>        the workspace folder, the default is the current directory',
+	'  --verbose                        trace to stderr',
+].join('\n');
+
+export interface CommandLine {
+	paths: string[];
+	verbose: boolean;
+	configuration: RunConfiguration;
+}
+
+interface FileResult {
+	filePath: string;
+	failures: SerializedRuleFailure[];
+}
+
+export function parseCommandLine(args: string[]): CommandLine {
+	let paths: string[] = [];
+	let rulesDirectory: string[] = [];
+	let exclude: string[] = [];
+	let verbose = false;
+	let configuration: { -readonly [P in keyof RunConfiguration]: RunConfiguration[P] } = {
+		ignoreDefinitionFiles: true,
+		validateWithDefaultConfig: false,
+		jsEnable: false,
+		workspaceFolderPath: process.cwd()
+	};
+
+	for (let i = 0; i < args.length; i++) {
+		let arg = args[i];
+		let value = () => {
+			if (i + 1 >= args.length) {
+				throw new Error(`Missing value for the option ${arg}`);
+			}
+			return args[++i];
+		};
+		switch (arg) {
+			case '--config':
+				configuration.configFile = path.resolve(value());
+				break;
+			case '--rules-dir':
+				rulesDirectory.push(path.resolve(value()));
+				break;
+			case '--exclude':
+				exclude.push(value());
+				break;
+			case '--no-ignore-definition-files':
+				configuration.ignoreDefinitionFiles = false;
+				break;
+			case '--validate-with-default-config':
+				configuration.validateWithDefaultConfig = true;
+				break;
+			case '--js':
+				configuration.jsEnable = true;
+				break;
+			case '--node-path':
+				configuration.nodePath = path.resolve(value());
+				break;
+			case '--package-manager':
+				let packageManager = value();
+				if (packageManager !== 'npm' && packageManager !== 'yarn') {
+					throw new Error(`Invalid package manager '${packageManager}'`);
+				}
+				configuration.packageManager = packageManager;
+				break;
+			case '--workspace-folder':
+				configuration.workspaceFolderPath = path.resolve(value());
+				break;
+			case '--verbose':
+				verbose = true;
+				break;
+			default:
+				if (arg.startsWith('--')) {
+					throw new Error(`Unknown option ${arg}`);
+				}
+				paths.push(path.resolve(arg));
+		}
+	}
+	if (paths.length === 0) {
+		throw new Error('No files or folders to lint');
+	}
+	if (rulesDirectory.length > 0) {
+		configuration.rulesDirectory = rulesDirectory;
+	}
+	if (exclude.length > 0) {
+		configuration.exclude = exclude;
+	}
+	configuration.traceLevel = verbose ? 'verbose' : 'normal';
+	return { paths, verbose, configuration };
+}
+
+async function collectFiles(runner: TsLintRunner, commandLine: CommandLine): Promise<string[]> {
+	let files: string[] = [];
+	for (let each of commandLine.paths) {
+		if (fs.statSync(each).isDirectory()) {
+			// folders are linted like a workspace folder when 'tslint.run' is 'workspace'
+			files.push(...await findWorkspaceFiles(each, !!commandLine.configuration.jsEnable, tsconfigPath => runner.loadTypeScript(tsconfigPath, commandLine.configuration)));
+		} else {
+			files.push(each);
+		}
+	}
+	return files;
+}
+
+async function main(args: string[]): Promise<number> {
+	let commandLine: CommandLine;
+	try {
+		commandLine = parseCommandLine(args);
+	} catch (err) {
+		process.stderr.write(`${err.message}\n\n${usage}\n`);
+		return 1;
+	}
+
+	let trace = (message: string) => {
+		if (commandLine.verbose) {
+			process.stderr.write(`${message}\n`);
+		}
+	};
+	let runner = new TsLintRunner(trace);
+
+	let files: string[];
+	try {
+		files = await collectFiles(runner, commandLine);
+	} catch (err) {
+		process.stderr.write(`${err.message}\n`);
+		return 1;
+	}
+
+	let results: FileResult[] = [];
+	let warnings = new Set<string>();
+	let failed = false;
+	let errorCount = 0;
+	let warningCount = 0;
+	for (let filePath of files) {
+		let result = runner.runTsLint(filePath, fs.readFileSync(filePath, 'utf8'), commandLine.configuration);
+		result.warnings.forEach(each => warnings.add(each));
+		failed = failed || !!result.failed;
+
+		let failures = runner.filterProblemsForFile(filePath, result.lintResult.failures).map(serializeRuleFailure);
+		failures.forEach(each => each.ruleSeverity === 'error' ? errorCount++ : warningCount++);
+		if (failures.length > 0) {
+			results.push({ filePath, failures });
+		}
+	}
+
+	process.stdout.write(JSON.stringify({
+		results,
+		warnings: Array.from(warnings),
+		fileCount: files.length,
+		errorCount,
+		warningCount
+	}, undefined, 2) + '\n');
+
+	if (failed) {
+		return 1;
+	}
+	return errorCount > 0 ? 2 : 0;
+}
+
+// the module is also loaded by the tests
+if (require.main === module) {
+	main(process.argv.slice(2)).then(exitCode => {
+		process.exitCode = exitCode;
+	}, err => {
+		process.stderr.write(`${err.stack}\n`);
+		process.exitCode = 1;
+	});
+}
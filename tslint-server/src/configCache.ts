@@ -0,0 +1,44 @@
+import * as path from 'path';
+import * as tslint from 'tslint'; // this is a dev dependency only
+
+export interface Configuration {
+    readonly linterConfiguration: tslint.Configuration.IConfigurationFile | undefined;
+    isDefaultLinterConfig: boolean;
+    readonly path?: string;
+    /**
+     * The resolved paths of the configuration files this configuration extends directly or
+     * indirectly, in the order they are loaded. Undefined when the extended files are not known.
+     */
+    readonly dependencies: string[] | undefined;
+}
+
+/**
+ * Caches the loaded configurations. The key is the resolved path of the configuration file.
+ */
+export class ConfigCache {
+    private readonly configurations = new Map<string, Configuration>();
+
+    public set(configPath: string, configuration: Configuration) {
+        this.configurations.set(path.normalize(configPath), configuration);
+    }
+
+    public get(configPath: string): Configuration | undefined {
+        return this.configurations.get(path.normalize(configPath));
+    }
+
+    /**
+     * Remove the configurations that are loaded from the given file or that extend it
+     */
+    public invalidate(changedPath: string) {
+        const normalizedPath = path.normalize(changedPath);
+        for (const [configPath, configuration] of Array.from(this.configurations.entries())) {
+            if (configPath === normalizedPath || !configuration.dependencies || configuration.dependencies.indexOf(normalizedPath) !== -1) {
+                this.configurations.delete(configPath);
+            }
+        }
+    }
+
+    public flush() {
+        this.configurations.clear();
+    }
+}
@@ -0,0 +1,546 @@
+import * as jsonc from 'jsonc-parser';
+import * as tslint from 'tslint'; // this is a dev dependency only
+import * as YAML from 'yaml';
+import { Node as YamlNode, Pair, Scalar, YAMLMap, YAMLSeq } from 'yaml/types';
+
+/**
+ * A rule that can be used in a configuration file
+ */
+export interface AvailableRule {
+	ruleName: string;
+	metadata?: tslint.IRuleMetadata;
+}
+
+export interface ConfigDocument {
+	text: string;
+	yaml: boolean;
+	// the nodes of a YAML document are converted to the nodes of the equivalent JSON document
+	root: jsonc.Node | undefined;
+}
+
+export interface ConfigCompletion {
+	label: string;
+	kind: 'rule' | 'property' | 'value';
+	insertText: string;
+	// the range of the text replaced by the completion
+	start: number;
+	end: number;
+	// set for the completion of a rule name
+	rule?: AvailableRule;
+}
+
+export interface ConfigRuleReference {
+	ruleName: string;
+	start: number;
+	end: number;
+}
+
+export interface ConfigProblem {
+	start: number;
+	end: number;
+	message: string;
+}
+
+// the subset of the JSON schema used by the metadata of the rules to describe the options,
+// the type `list` is specific to tslint and describes an array with items of the `listType`
+interface OptionSchema {
+	type?: string;
+	enum?: any[];
+	items?: OptionSchema | OptionSchema[];
+	additionalItems?: boolean | OptionSchema;
+	listType?: OptionSchema;
+	properties?: { [name: string]: OptionSchema };
+	additionalProperties?: boolean | OptionSchema;
+	anyOf?: OptionSchema[];
+	oneOf?: OptionSchema[];
+}
+
+interface ConfigLocation {
+	// the path of the value or property key at the location
+	path: jsonc.JSONPath;
+	isAtPropertyKey: boolean;
+	// the range of the value or property key at the location
+	start: number;
+	end: number;
+}
+
+// the nodes of the JSON parser are read-only, the nodes converted from YAML are completed after their creation
+type MutableNode = { -readonly [K in keyof jsonc.Node]: jsonc.Node[K] };
+
+const ruleSections = ['rules', 'jsRules'];
+const severities = ['default', 'error', 'warning', 'off'];
+// tslint accepts the severities case insensitive and with the aliases `warn` and `none`
+const validSeverities = [...severities, 'warn', 'none'];
+const ruleProperties = ['severity', 'options'];
+
+export function parseConfigDocument(text: string, yaml: boolean): ConfigDocument {
+	return { text, yaml, root: yaml ? parseYaml(text) : jsonc.parseTree(text) };
+}
+
+function parseYaml(text: string): jsonc.Node | undefined {
+	let contents = YAML.parseDocument(text).contents;
+	return contents ? convertYamlNode(contents, undefined) : undefined;
+}
+
+function convertYamlNode(yamlNode: YamlNode | null | undefined, parent: jsonc.Node | undefined): jsonc.Node | undefined {
+	if (!yamlNode || !yamlNode.range) {
+		return undefined;
+	}
+	let [start, end] = yamlNode.range;
+	let node: MutableNode = { type: 'null', offset: start, length: end - start, parent };
+	if (yamlNode instanceof YAMLMap) {
+		node.type = 'object';
+		node.children = [];
+		for (let pair of <Pair[]>yamlNode.items) {
+			let property = convertYamlPair(pair, node);
+			if (property) {
+				node.children.push(property);
+			}
+		}
+	} else if (yamlNode instanceof YAMLSeq) {
+		node.type = 'array';
+		node.children = [];
+		for (let item of yamlNode.items) {
+			let child = convertYamlNode(item, node);
+			if (child) {
+				node.children.push(child);
+			}
+		}
+	} else if (yamlNode instanceof Scalar) {
+		let value = yamlNode.value;
+		if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+			node.type = <'string' | 'number' | 'boolean'>typeof value;
+			node.value = value;
+		} else {
+			node.value = null;
+		}
+	}
+	return node;
+}
+
+function convertYamlPair(pair: Pair, parent: jsonc.Node): jsonc.Node | undefined {
+	let key: MutableNode | undefined = convertYamlNode(pair.key, undefined);
+	if (!key) {
+		return undefined;
+	}
+	key.type = 'string';
+	key.value = String(key.value);
+	let property: MutableNode = { type: 'property', offset: key.offset, length: key.length, parent, children: [key] };
+	key.parent = property;
+	let value = convertYamlNode(pair.value, property);
+	if (value) {
+		property.length = value.offset + value.length - property.offset;
+		property.children!.push(value);
+	}
+	return property;
+}
+
+function getLocation(document: ConfigDocument, offset: number): ConfigLocation {
+	return document.yaml ? getYamlLocation(document, offset) : getJsonLocation(document.text, offset);
+}
+
+function getJsonLocation(text: string, offset: number): ConfigLocation {
+	let location = jsonc.getLocation(text, offset);
+	let node = location.previousNode;
+	let range = node && node.offset <= offset && offset <= node.offset + node.length
+		? { start: node.offset, end: node.offset + node.length }
+		: { start: offset, end: offset };
+	return { path: location.path, isAtPropertyKey: location.isAtPropertyKey, ...range };
+}
+
+/**
+ * The YAML parser cannot recover from incomplete mappings as well as the JSON parser, the path of a key on its own
+ * line or of a missing value is therefore computed from the indentation of the preceding lines
+ */
+function getYamlLocation(document: ConfigDocument, offset: number): ConfigLocation {
+	let { text, root } = document;
+	let lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+	let prefix = text.substring(lineStart, offset);
+	let key = /^(\s*)([\w@/.-]*)$/.exec(prefix);
+	if (key) {
+		let suffix = /^[\w@/.-]*/.exec(text.substring(offset))![0];
+		return {
+			path: [...getYamlParentPath(text, lineStart, key[1].length), key[2] + suffix],
+			isAtPropertyKey: true,
+			start: offset - key[2].length,
+			end: offset + suffix.length
+		};
+	}
+	let node = root && jsonc.findNodeAtOffset(root, offset, true);
+	if (node && node.type === 'array') {
+		let index = node.children!.filter(each => each.offset + each.length <= offset).length;
+		return { path: [...jsonc.getNodePath(node), index], isAtPropertyKey: false, start: offset, end: offset };
+	}
+	if (node && node.type !== 'object' && node.type !== 'property') {
+		let isAtPropertyKey = node.parent !== undefined && node.parent.type === 'property' && node.parent.children![0] === node;
+		return { path: jsonc.getNodePath(node), isAtPropertyKey, start: node.offset, end: node.offset + node.length };
+	}
+	let missingValue = /^(\s*)("[^"]*"|'[^']*'|[^\s#'"-][^#]*?)\s*:\s*$/.exec(prefix);
+	if (missingValue) {
+		return {
+			path: [...getYamlParentPath(text, lineStart, missingValue[1].length), unquote(missingValue[2])],
+			isAtPropertyKey: false,
+			start: offset,
+			end: offset
+		};
+	}
+	return { path: [], isAtPropertyKey: false, start: offset, end: offset };
+}
+
+function getYamlParentPath(text: string, lineStart: number, indentation: number): string[] {
+	let path: string[] = [];
+	let lines = text.substring(0, lineStart).split(/\r?\n/);
+	for (let i = lines.length - 1; i >= 0 && indentation > 0; i--) {
+		let match = /^(\s*)("[^"]*"|'[^']*'|[^\s#'"-][^#]*?)\s*:(\s|$)/.exec(lines[i]);
+		if (match && match[1].length < indentation) {
+			path.unshift(unquote(match[2]));
+			indentation = match[1].length;
+		}
+	}
+	return path;
+}
+
+function unquote(text: string): string {
+	return /^(".*"|'.*')$/.test(text) ? text.substring(1, text.length - 1) : text;
+}
+
+function isRuleSection(segment: string | number | undefined): boolean {
+	return typeof segment === 'string' && ruleSections.indexOf(segment) !== -1;
+}
+
+function formatValue(document: ConfigDocument, value: any): string {
+	// a plain scalar is more common in YAML than a quoted string, JSON is valid YAML otherwise
+	if (document.yaml && typeof value === 'string' && /^[a-zA-Z][\w-]*$/.test(value) && !/^(true|false|null)$/i.test(value)) {
+		return value;
+	}
+	return JSON.stringify(value);
+}
+
+// the value is omitted when undefined
+function formatKey(document: ConfigDocument, location: ConfigLocation, key: string, value?: any): string {
+	let text = document.yaml ? key : JSON.stringify(key);
+	// add the separator and the value unless the key already has a value
+	if (!/^\s*:/.test(document.text.substring(location.end))) {
+		text += value !== undefined ? `: ${formatValue(document, value)}` : ': ';
+	}
+	return text;
+}
+
+/**
+ * Complete the rule names and their options in a configuration file
+ */
+export function getConfigCompletions(document: ConfigDocument, offset: number, rules: AvailableRule[]): ConfigCompletion[] {
+	let location = getLocation(document, offset);
+	let { path, start, end } = location;
+	if (path.length < 2 || !isRuleSection(path[0])) {
+		return [];
+	}
+	let ruleName = <string>path[1];
+	let rule = rules.find(each => each.ruleName === ruleName);
+	if (location.isAtPropertyKey) {
+		if (path.length === 2) {
+			let configured = getConfiguredRuleNames(document, <string>path[0]);
+			return rules
+				.filter(each => each.ruleName === ruleName || !configured.has(each.ruleName))
+				.map(each => ({ label: each.ruleName, kind: <'rule'>'rule', insertText: formatKey(document, location, each.ruleName, true), start, end, rule: each }));
+		}
+		let properties = path.length === 3 ? ruleProperties : getSchemaProperties(getOptionSchema(rule, path.slice(2, -1)));
+		return properties.map(each => ({ label: each, kind: <'property'>'property', insertText: formatKey(document, location, each), start, end }));
+	}
+	let values: any[];
+	if (path.length === 2) {
+		let examples: any[] = rule && rule.metadata && rule.metadata.optionExamples || [];
+		values = [true, false, ...examples.filter(each => typeof each !== 'string')];
+	} else if (path.length === 3 && path[2] === 'severity') {
+		values = severities;
+	} else {
+		values = getSchemaValues(getOptionSchema(rule, path.slice(2)));
+	}
+	return values.map(each => formatValue(document, each)).map(each => ({ label: each, kind: <'value'>'value', insertText: each, start, end }));
+}
+
+function getConfiguredRuleNames(document: ConfigDocument, section: string): Set<string> {
+	let node = document.root && jsonc.findNodeAtLocation(document.root, [section]);
+	let names = new Set<string>();
+	if (node && node.type === 'object') {
+		node.children!.forEach(each => names.add(each.children![0].value));
+	}
+	return names;
+}
+
+/**
+ * Returns the rule name at an offset of a configuration file
+ */
+export function findConfigRuleReference(document: ConfigDocument, offset: number): ConfigRuleReference | undefined {
+	let node = document.root && jsonc.findNodeAtOffset(document.root, offset, true);
+	if (!node || !node.parent || node.parent.type !== 'property' || node.parent.children![0] !== node) {
+		return undefined;
+	}
+	let path = jsonc.getNodePath(node);
+	if (path.length !== 2 || !isRuleSection(path[0])) {
+		return undefined;
+	}
+	return { ruleName: node.value, start: node.offset, end: node.offset + node.length };
+}
+
+/**
+ * Validate the rules of a configuration file against the available rules and the schema of their options. The
+ * rule names are not validated when the available rules are unknown.
+ */
+export function validateConfigDocument(document: ConfigDocument, rules: AvailableRule[] | undefined): ConfigProblem[] {
+	let problems: ConfigProblem[] = [];
+	let root = document.root;
+	if (!root || root.type !== 'object') {
+		return problems;
+	}
+	ruleSections.forEach(section => {
+		// `jsRules` can also be a boolean
+		let node = jsonc.findNodeAtLocation(root!, [section]);
+		if (!node || node.type !== 'object') {
+			return;
+		}
+		node.children!.forEach(property => {
+			let [key, value] = property.children!;
+			let rule = rules && rules.find(each => each.ruleName === key.value);
+			if (rules && !rule && !isDisabled(value)) {
+				problems.push(createProblem(key, `Could not find the implementation of the rule "${key.value}".`));
+			}
+			if (value) {
+				problems.push(...validateRuleValue(value, rule));
+			}
+		});
+	});
+	return problems;
+}
+
+function createProblem(node: jsonc.Node, message: string): ConfigProblem {
+	return { start: node.offset, end: node.offset + node.length, message };
+}
+
+// tslint does not load disabled rules, e.g. a disabled rule that no longer exists is not an error
+function isDisabled(value: jsonc.Node | undefined): boolean {
+	if (!value) {
+		return false;
+	}
+	let configuration = jsonc.getNodeValue(value);
+	if (configuration === false || Array.isArray(configuration) && configuration[0] === false) {
+		return true;
+	}
+	return configuration !== null && typeof configuration === 'object' && typeof configuration.severity === 'string'
+		&& ['off', 'none'].indexOf(configuration.severity.toLowerCase()) !== -1;
+}
+
+function validateRuleValue(value: jsonc.Node, rule: AvailableRule | undefined): ConfigProblem[] {
+	switch (value.type) {
+		case 'boolean':
+		case 'null':
+			return [];
+		case 'array': {
+			let [first, ...args] = value.children!;
+			if (first && first.type !== 'boolean') {
+				return [createProblem(first, 'The first element must be true or false, the rule is disabled otherwise.')];
+			}
+			return validateArguments(args, rule);
+		}
+		case 'object': {
+			let problems: ConfigProblem[] = [];
+			value.children!.forEach(property => {
+				let [key, propertyValue] = property.children!;
+				if (key.value === 'severity') {
+					if (propertyValue && (propertyValue.type !== 'string' || validSeverities.indexOf(propertyValue.value.toLowerCase()) === -1)) {
+						problems.push(createProblem(propertyValue, `Expected one of ${severities.map(each => JSON.stringify(each)).join(', ')}.`));
+					}
+				} else if (key.value === 'options') {
+					// like tslint a single option does not have to be wrapped in an array
+					if (propertyValue) {
+						problems.push(...validateArguments(propertyValue.type === 'array' ? propertyValue.children! : [propertyValue], rule));
+					}
+				} else {
+					problems.push(createProblem(key, `Unknown property "${key.value}", expected "severity" or "options".`));
+				}
+			});
+			return problems;
+		}
+		default:
+			return [createProblem(value, 'Expected true or false, an array or an object.')];
+	}
+}
+
+function validateArguments(args: jsonc.Node[], rule: AvailableRule | undefined): ConfigProblem[] {
+	let options: OptionSchema | null | undefined = rule && rule.metadata && rule.metadata.options;
+	if (!options) {
+		return [];
+	}
+	if (options.type === 'array' || options.type === 'list') {
+		return getArrayErrors(args, options);
+	}
+	// a rule with a single option might accept further options that are not described by the schema
+	return args.length > 0 ? getSchemaErrors(args[0], options) : [];
+}
+
+function getSchemaErrors(node: jsonc.Node, schema: OptionSchema): ConfigProblem[] {
+	let branches = schema.anyOf || schema.oneOf;
+	if (branches) {
+		let results = branches.map(each => getSchemaErrors(node, each));
+		if (results.some(each => each.length === 0)) {
+			return [];
+		}
+		// report the errors of the first alternative with the type of the value. The alternatives do not describe
+		// all accepted values of some rules, e.g. `file-name-casing` accepts a single string, other types are accepted.
+		let index = branches.findIndex(each => matchesType(node, each));
+		return index !== -1 ? results[index] : [];
+	}
+	if (!matchesType(node, schema)) {
+		return [createProblem(node, `Expected ${describeType(schema)}.`)];
+	}
+	if (schema.enum && schema.enum.indexOf(node.value) === -1) {
+		return [createProblem(node, `Expected one of ${schema.enum.map(each => JSON.stringify(each)).join(', ')}.`)];
+	}
+	if (node.type === 'array') {
+		return getArrayErrors(node.children!, schema);
+	}
+	if (node.type === 'object' && schema.properties) {
+		let problems: ConfigProblem[] = [];
+		node.children!.forEach(property => {
+			let [key, value] = property.children!;
+			let propertySchema = schema.properties![key.value];
+			if (!propertySchema) {
+				if (schema.additionalProperties === false) {
+					problems.push(createProblem(key, `Unknown property "${key.value}".`));
+				}
+			} else if (value) {
+				problems.push(...getSchemaErrors(value, propertySchema));
+			}
+		});
+		return problems;
+	}
+	return [];
+}
+
+function getArrayErrors(items: jsonc.Node[], schema: OptionSchema): ConfigProblem[] {
+	let problems: ConfigProblem[] = [];
+	items.forEach((each, index) => {
+		let itemSchema = getItemSchema(schema, index);
+		if (itemSchema) {
+			problems.push(...getSchemaErrors(each, itemSchema));
+		} else if (Array.isArray(schema.items) && schema.additionalItems === false) {
+			problems.push(createProblem(each, `Unexpected value, at most ${schema.items.length} values are allowed.`));
+		}
+	});
+	return problems;
+}
+
+function matchesType(node: jsonc.Node, schema: OptionSchema): boolean {
+	switch (schema.type) {
+		case 'string':
+		case 'number':
+		case 'boolean':
+		case 'object':
+			return node.type === schema.type;
+		case 'integer':
+			return node.type === 'number';
+		case 'array':
+		case 'list':
+			return node.type === 'array';
+		default:
+			return true;
+	}
+}
+
+function describeType(schema: OptionSchema): string {
+	switch (schema.type) {
+		case 'string':
+			return 'a string';
+		case 'number':
+		case 'integer':
+			return 'a number';
+		case 'boolean':
+			return 'true or false';
+		case 'object':
+			return 'an object';
+		case 'array':
+		case 'list':
+			return 'an array';
+		default:
+			return 'a value';
+	}
+}
+
+function getItemSchema(schema: OptionSchema, index: number): OptionSchema | undefined {
+	if (schema.type === 'list') {
+		return schema.listType;
+	}
+	if (Array.isArray(schema.items)) {
+		if (index < schema.items.length) {
+			return schema.items[index];
+		}
+		return typeof schema.additionalItems === 'object' ? schema.additionalItems : undefined;
+	}
+	return schema.items;
+}
+
+/**
+ * Returns the schema of a value in the configuration of a rule, the path is relative to the configuration of the rule
+ */
+function getOptionSchema(rule: AvailableRule | undefined, path: jsonc.JSONPath): OptionSchema | undefined {
+	let options: OptionSchema | null | undefined = rule && rule.metadata && rule.metadata.options;
+	let [first, ...rest] = path;
+	if (first === 0) {
+		return rest.length === 0 ? { type: 'boolean' } : undefined;
+	}
+	let argumentIndex: number;
+	if (typeof first === 'number') {
+		argumentIndex = first - 1;
+	} else if (first === 'options') {
+		// the options of the object form are always the array of arguments when they are an array
+		argumentIndex = typeof rest[0] === 'number' ? <number>rest.shift() : 0;
+	} else {
+		return undefined;
+	}
+	let schema = options ? getArgumentSchema(options, argumentIndex) : undefined;
+	for (let segment of rest) {
+		schema = schema && getChildSchema(schema, segment);
+	}
+	return schema;
+}
+
+function getArgumentSchema(options: OptionSchema, index: number): OptionSchema | undefined {
+	if (options.type === 'array' || options.type === 'list') {
+		return getItemSchema(options, index);
+	}
+	return index === 0 ? options : undefined;
+}
+
+function getChildSchema(schema: OptionSchema, segment: string | number): OptionSchema | undefined {
+	let branches = schema.anyOf || schema.oneOf;
+	if (branches) {
+		let children = branches.map(each => getChildSchema(each, segment)).filter((each): each is OptionSchema => each !== undefined);
+		return children.length > 0 ? { anyOf: children } : undefined;
+	}
+	if (typeof segment === 'number') {
+		return schema.type === 'array' || schema.type === 'list' ? getItemSchema(schema, segment) : undefined;
+	}
+	return schema.properties && schema.properties[segment];
+}
+
+function getSchemaValues(schema: OptionSchema | undefined): any[] {
+	if (!schema) {
+		return [];
+	}
+	let branches = schema.anyOf || schema.oneOf;
+	let values: any[] = branches
+		? ([] as any[]).concat(...branches.map(getSchemaValues))
+		: schema.enum || (schema.type === 'boolean' ? [true, false] : []);
+	return values.filter((each, index) => values.indexOf(each) === index);
+}
+
+function getSchemaProperties(schema: OptionSchema | undefined): string[] {
+	if (!schema) {
+		return [];
+	}
+	let branches = schema.anyOf || schema.oneOf;
+	let properties: string[] = branches
+		? ([] as string[]).concat(...branches.map(getSchemaProperties))
+		: Object.keys(schema.properties || {});
+	return properties.filter((each, index) => properties.indexOf(each) === index);
+}
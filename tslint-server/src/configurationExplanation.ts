@@ -0,0 +1,86 @@
+import * as path from 'path';
+import { ConfigurationExplanation, ConfigurationFile, EffectiveRule } from './runner';
+
+// the paths inside of the workspace folder are shown relative to it
+function formatPath(filePath: string, workspaceFolderPath: string | undefined): string {
+	let relativePath = workspaceFolderPath ? path.relative(workspaceFolderPath, filePath) : '';
+	let shown = relativePath && !relativePath.startsWith('..') && !path.isAbsolute(relativePath) ? relativePath : filePath;
+	return `\`${shown.replace(/\\/g, '/')}\``;
+}
+
+function formatConfigurationFile(file: ConfigurationFile, indentation: string, workspaceFolderPath: string | undefined): string[] {
+	return [
+		`${indentation}- ${formatPath(file.path, workspaceFolderPath)}`,
+		...([] as string[]).concat(...file.extends.map(each => formatConfigurationFile(each, indentation + '  ', workspaceFolderPath)))
+	];
+}
+
+function escapeTableCell(text: string): string {
+	return text.replace(/\|/g, '\\|');
+}
+
+function formatRule(rule: EffectiveRule, workspaceFolderPath: string | undefined): string {
+	let args = rule.options.ruleArguments;
+	let options = args && args.length > 0 ? escapeTableCell(`\`${JSON.stringify(args)}\``) : '';
+	let configuredIn = rule.configuredIn.map(each => formatPath(each, workspaceFolderPath)).reverse();
+	let origin = configuredIn.length > 1 ? `${configuredIn[0]}, overrides ${configuredIn.slice(1).join(', ')}` : configuredIn.join('');
+	return `| \`${rule.ruleName}\` | ${rule.options.ruleSeverity || ''} | ${options} | ${origin} |`;
+}
+
+/**
+ * Create a markdown document explaining the configuration that is used to lint a file
+ */
+export function formatConfigurationExplanation(explanation: ConfigurationExplanation, workspaceFolderPath?: string): string {
+	let lines: string[] = [`# Configuration of ${formatPath(explanation.filePath, workspaceFolderPath)}`, ''];
+	if (explanation.error) {
+		lines.push(explanation.error);
+		return lines.join('\n');
+	}
+	if (explanation.notLinted) {
+		lines.push(`**The file is not linted.** ${explanation.notLinted}`, '');
+	}
+
+	lines.push('## Configuration file', '');
+	if (!explanation.configFilePath) {
+		lines.push('No configuration file was found, the default configuration of tslint is used.', '');
+	} else if (!explanation.configFile) {
+		lines.push(`The configuration is loaded from ${formatPath(explanation.configFilePath, workspaceFolderPath)}.`, '');
+	} else if (explanation.configFile.extends.length === 0) {
+		lines.push(`The configuration is loaded from ${formatPath(explanation.configFilePath, workspaceFolderPath)}, it does not extend other configurations.`, '');
+	} else {
+		lines.push(
+			`The configuration is loaded from ${formatPath(explanation.configFilePath, workspaceFolderPath)}. `
+			+ 'The extended configurations are applied in the listed order before the configuration extending them:', '',
+			...formatConfigurationFile(explanation.configFile, '', workspaceFolderPath), ''
+		);
+	}
+
+	lines.push('## Rules', '');
+	if (explanation.rules.length === 0) {
+		lines.push('No rules are configured.', '');
+	} else {
+		lines.push('| Rule | Severity | Options | Configured in |', '| --- | --- | --- | --- |');
+		explanation.rules
+			.slice()
+			.sort((a, b) => a.ruleName.localeCompare(b.ruleName))
+			.forEach(each => lines.push(formatRule(each, workspaceFolderPath)));
+		lines.push('');
+	}
+
+	lines.push('## The no-unused-variable rule', '');
+	if (explanation.noUnusedVariableRemovedFrom.length > 0) {
+		let files = explanation.noUnusedVariableRemovedFrom.map(each => formatPath(each, workspaceFolderPath)).join(', ');
+		lines.push(`The rule is configured in ${files}, it is removed from the configuration since it breaks the TypeScript language service.`, '');
+	} else {
+		lines.push('The rule is not configured. It would be removed from the configuration since it breaks the TypeScript language service.', '');
+	}
+
+	lines.push('## Excluded files', '');
+	if (explanation.exclude.length === 0) {
+		lines.push('The configuration does not exclude files with `linterOptions.exclude`.');
+	} else {
+		lines.push('The configuration excludes the files matching the patterns of `linterOptions.exclude`:', '');
+		explanation.exclude.forEach(each => lines.push(`- \`${each}\``));
+	}
+	return lines.join('\n').trim();
+}
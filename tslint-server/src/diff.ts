@@ -0,0 +1,137 @@
+/**
+ * A range of lines that differs between two texts. The end indices are exclusive.
+ */
+export interface LineChange {
+	originalStart: number;
+	originalEnd: number;
+	modifiedStart: number;
+	modifiedEnd: number;
+}
+
+/**
+ * A replacement of the characters from start to end (exclusive) in the original text.
+ */
+export interface TextChange {
+	start: number;
+	end: number;
+	text: string;
+}
+
+/**
+ * Splits a text into lines, the line terminators are kept so that the lines can be joined again.
+ */
+export function splitLines(text: string): string[] {
+	return text.match(/[^\r\n]*(\r\n|\r|\n)|[^\r\n]+$/g) || [];
+}
+
+/**
+ * Returns the pairs of indices of the lines that are the same in both texts using the algorithm
+ * of Myers, "An O(ND) Difference Algorithm and Its Variations".
+ */
+function commonLines(a: string[], b: string[]): [number, number][] {
+	let n = a.length;
+	let m = b.length;
+	let max = n + m;
+	let offset = max + 1;
+	let v = new Int32Array(2 * max + 3);
+	// the furthest reaching x of each diagonal at the start of each step d, only the diagonals -d - 1 to d + 1 are kept
+	let trace: Int32Array[] = [];
+
+	search: for (let d = 0; d <= max; d++) {
+		trace.push(v.slice(offset - d - 1, offset + d + 2));
+		for (let k = -d; k <= d; k += 2) {
+			let x: number;
+			if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+				x = v[offset + k + 1];
+			} else {
+				x = v[offset + k - 1] + 1;
+			}
+			let y = x - k;
+			while (x < n && y < m && a[x] === b[y]) {
+				x++;
+				y++;
+			}
+			v[offset + k] = x;
+			if (x >= n && y >= m) {
+				break search;
+			}
+		}
+	}
+
+	let matches: [number, number][] = [];
+	let x = n;
+	let y = m;
+	for (let d = trace.length - 1; d >= 0; d--) {
+		let previous = trace[d];
+		let k = x - y;
+		let previousK: number;
+		if (k === -d || (k !== d && previous[k - 1 + d + 1] < previous[k + 1 + d + 1])) {
+			previousK = k + 1;
+		} else {
+			previousK = k - 1;
+		}
+		let previousX = previous[previousK + d + 1];
+		let previousY = previousX - previousK;
+		while (x > previousX && y > previousY) {
+			x--;
+			y--;
+			matches.push([x, y]);
+		}
+		x = previousX;
+		y = previousY;
+	}
+	return matches.reverse();
+}
+
+/**
+ * Computes the ranges of lines that differ between the original and the modified lines.
+ */
+export function diffLines(original: string[], modified: string[]): LineChange[] {
+	let prefix = 0;
+	let minLength = Math.min(original.length, modified.length);
+	while (prefix < minLength && original[prefix] === modified[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (suffix < minLength - prefix && original[original.length - 1 - suffix] === modified[modified.length - 1 - suffix]) {
+		suffix++;
+	}
+
+	let a = original.slice(prefix, original.length - suffix);
+	let b = modified.slice(prefix, modified.length - suffix);
+	let matches = commonLines(a, b);
+	matches.push([a.length, b.length]);
+
+	let changes: LineChange[] = [];
+	let nextA = 0;
+	let nextB = 0;
+	for (let [i, j] of matches) {
+		if (i > nextA || j > nextB) {
+			changes.push({
+				originalStart: prefix + nextA,
+				originalEnd: prefix + i,
+				modifiedStart: prefix + nextB,
+				modifiedEnd: prefix + j
+			});
+		}
+		nextA = i + 1;
+		nextB = j + 1;
+	}
+	return changes;
+}
+
+/**
+ * Computes the replacements of whole lines that turn the original text into the modified text.
+ */
+export function diffText(original: string, modified: string): TextChange[] {
+	let originalLines = splitLines(original);
+	let modifiedLines = splitLines(modified);
+	let lineOffsets = [0];
+	originalLines.forEach(line => lineOffsets.push(lineOffsets[lineOffsets.length - 1] + line.length));
+
+	return diffLines(originalLines, modifiedLines).map(change => ({
+		start: lineOffsets[change.originalStart],
+		end: lineOffsets[change.originalEnd],
+		text: modifiedLines.slice(change.modifiedStart, change.modifiedEnd).join('')
+	}));
+}
@@ -0,0 +1,398 @@
+import * as server from 'vscode-languageserver';
+
+import { TSLintAutofixEdit } from './fixer';
+
+// Support for the comments that enable and disable rules, e.g. `// tslint:disable-next-line:no-console`
+
+/**
+ * A comment that enables or disables rules.
+ */
+export interface DisableComment {
+	kind: 'enable' | 'disable';
+	// the part following 'tslint:enable' or 'tslint:disable', e.g. 'next-line'
+	modifier: '' | 'line' | 'next-line';
+	// the rule names, empty when the comment applies to all rules
+	rules: string[];
+	// the characters of the line where the comment starts and ends
+	start: number;
+	end: number;
+	// the characters of the line where the list of rule names starts and ends, undefined when the comment has no list of rule names
+	rulesStart: number | undefined;
+	rulesEnd: number | undefined;
+	// the characters of the line where the text following the colon starts and the text of the comment ends,
+	// undefined when the comment is not followed by a colon
+	listStart: number | undefined;
+	listEnd: number | undefined;
+}
+
+/**
+ * A rule name in a comment that enables or disables rules.
+ */
+export interface RuleNameReference {
+	name: string;
+	// the characters of the line where the name starts and ends
+	start: number;
+	end: number;
+	comment: DisableComment;
+}
+
+// the same expression that is used by tslint to recognize the comments
+const directivePattern = /^\s*tslint:(enable|disable)(?:-(line|next-line))?(:|\s|$)/;
+
+export function getLines(text: string): string[] {
+	return text.split(/\r\n|\r|\n/);
+}
+
+export function getEol(text: string): string {
+	return text.indexOf('\r\n') !== -1 ? '\r\n' : '\n';
+}
+
+function getIndentation(line: string): string {
+	return line.substr(0, line.length - line.trimLeft().length);
+}
+
+interface Comment {
+	start: number;
+	end: number;
+	// the characters where the text of the comment starts and ends
+	body: number;
+	bodyEnd: number;
+	// true for a block comment that continues on the next line
+	unterminated: boolean;
+}
+
+/**
+ * Returns the comments of a line. The line is scanned for string literals so that a `//` in a string
+ * is not taken as the start of a comment, template strings and regular expressions that span multiple
+ * lines are not detected.
+ */
+function findComments(line: string): Comment[] {
+	let comments: Comment[] = [];
+	let quote: string | undefined = undefined;
+	for (let i = 0; i < line.length; i++) {
+		let ch = line[i];
+		if (quote) {
+			if (ch === '\\') {
+				i++;
+			} else if (ch === quote) {
+				quote = undefined;
+			}
+		} else if (ch === '\'' || ch === '"' || ch === '`') {
+			quote = ch;
+		} else if (ch === '/' && line[i + 1] === '/') {
+			comments.push({ start: i, end: line.length, body: i + 2, bodyEnd: line.length, unterminated: false });
+			break;
+		} else if (ch === '/' && line[i + 1] === '*') {
+			let close = line.indexOf('*/', i + 2);
+			let end = close === -1 ? line.length : close + 2;
+			comments.push({ start: i, end, body: i + 2, bodyEnd: close === -1 ? line.length : close, unterminated: close === -1 });
+			i = end - 1;
+		}
+	}
+	return comments;
+}
+
+/**
+ * Returns the comments of a line that enable or disable rules.
+ */
+export function parseDisableComments(line: string): DisableComment[] {
+	let result: DisableComment[] = [];
+	for (let comment of findComments(line)) {
+		let body = line.substring(comment.body, comment.bodyEnd);
+		let match = directivePattern.exec(body);
+		if (!match) {
+			continue;
+		}
+		let disableComment: DisableComment = {
+			kind: <'enable' | 'disable'>match[1],
+			modifier: <'' | 'line' | 'next-line'>(match[2] || ''),
+			rules: [],
+			start: comment.start,
+			end: comment.end,
+			rulesStart: undefined,
+			rulesEnd: undefined,
+			listStart: undefined,
+			listEnd: undefined
+		};
+		if (match[3] === ':') {
+			disableComment.listStart = comment.body + match[0].length;
+			disableComment.listEnd = comment.bodyEnd;
+			let rulesText = body.substring(match[0].length);
+			let rules = rulesText.split(/\s+/).filter(each => each.length > 0);
+			// 'all' is the same as no list of rule names
+			if (rules.length > 0 && rules.indexOf('all') === -1) {
+				disableComment.rules = rules;
+				disableComment.rulesStart = comment.body + match[0].length + (rulesText.length - rulesText.trimLeft().length);
+				disableComment.rulesEnd = comment.body + match[0].length + rulesText.trimRight().length;
+			}
+		}
+		result.push(disableComment);
+	}
+	return result;
+}
+
+/**
+ * Returns the rule names in the comments of a line that enable or disable rules.
+ */
+export function getRuleNameReferences(line: string): RuleNameReference[] {
+	let result: RuleNameReference[] = [];
+	for (let comment of parseDisableComments(line)) {
+		if (comment.rulesStart === undefined) {
+			continue;
+		}
+		let namePattern = /\S+/g;
+		let rulesText = line.substring(comment.rulesStart, comment.rulesEnd);
+		let match: RegExpExecArray | null;
+		while ((match = namePattern.exec(rulesText)) !== null) {
+			let start = comment.rulesStart + match.index;
+			result.push({ name: match[0], start, end: start + match[0].length, comment });
+		}
+	}
+	return result;
+}
+
+function insertText(line: number, character: number, text: string): TSLintAutofixEdit {
+	let position = server.Position.create(line, character);
+	return { range: [position, position], text };
+}
+
+function appendRule(line: number, comment: DisableComment, ruleName: string): TSLintAutofixEdit {
+	return insertText(line, comment.rulesEnd!, ` ${ruleName}`);
+}
+
+function isMergeable(comment: DisableComment, modifier: string): boolean {
+	return comment.kind === 'disable' && comment.modifier === modifier && comment.rulesEnd !== undefined;
+}
+
+/**
+ * Disables a rule for a line using a comment on the previous line. The rule is added to an existing
+ * `tslint:disable-next-line` comment on the previous line.
+ */
+export function createDisableNextLineEdit(lines: string[], line: number, ruleName: string, eol: string): TSLintAutofixEdit {
+	if (line > 0) {
+		let previousLine = lines[line - 1];
+		let comments = parseDisableComments(previousLine);
+		// only merge with a comment that is the only content of the line
+		if (comments.length === 1 && comments[0].start === getIndentation(previousLine).length && isMergeable(comments[0], 'next-line')) {
+			return appendRule(line - 1, comments[0], ruleName);
+		}
+	}
+	return insertText(line, 0, `${getIndentation(lines[line])}// tslint:disable-next-line:${ruleName}${eol}`);
+}
+
+/**
+ * Disables a rule for a line using a comment at the end of the line. The rule is added to an existing
+ * `tslint:disable-line` comment of the line.
+ */
+export function createDisableLineEdit(lines: string[], line: number, ruleName: string): TSLintAutofixEdit {
+	let text = lines[line];
+	let comments = parseDisableComments(text);
+	let existing = comments.filter(each => isMergeable(each, 'line'))[0];
+	if (existing) {
+		return appendRule(line, existing, ruleName);
+	}
+	// a comment is inserted before a trailing line comment, tslint ignores a directive inside of another comment
+	let trailingComment = findComments(text).filter(each => text.substr(each.start, 2) === '//')[0];
+	if (trailingComment) {
+		return insertText(line, trailingComment.start, `/* tslint:disable-line:${ruleName} */ `);
+	}
+	// replace trailing whitespace
+	return {
+		range: [server.Position.create(line, text.trimRight().length), server.Position.create(line, text.length)],
+		text: ` // tslint:disable-line:${ruleName}`
+	};
+}
+
+/**
+ * Disables a rule for the entire file using a comment at the beginning of the file. The rule is added to an
+ * existing `tslint:disable` comment in the comments at the beginning of the file.
+ */
+export function createDisableFileEdit(lines: string[], ruleName: string, eol: string): TSLintAutofixEdit {
+	let firstLine = lines.length > 0 && lines[0].startsWith('#!') ? 1 : 0;
+	let inBlockComment = false;
+	for (let i = firstLine; i < lines.length; i++) {
+		let text = lines[i].trim();
+		if (!inBlockComment && text.length > 0 && !text.startsWith('//') && !text.startsWith('/*')) {
+			// the first line of code ends the header
+			break;
+		}
+		let existing = parseDisableComments(lines[i]).filter(each => isMergeable(each, ''))[0];
+		if (existing) {
+			return appendRule(i, existing, ruleName);
+		}
+		if (inBlockComment) {
+			inBlockComment = text.indexOf('*/') === -1;
+		} else {
+			let comments = findComments(lines[i]);
+			inBlockComment = comments.length > 0 && comments[comments.length - 1].unterminated;
+		}
+	}
+	return insertText(firstLine, 0, `/* tslint:disable:${ruleName} */${eol}`);
+}
+
+/**
+ * Disables rules for the lines from startLine to endLine using a pair of comments that disable and enable the rules.
+ */
+export function createDisableSelectionEdits(lines: string[], startLine: number, endLine: number, ruleNames: string[], eol: string): TSLintAutofixEdit[] {
+	let indentation = getIndentation(lines[startLine]);
+	let rules = ruleNames.join(' ');
+	let disable = insertText(startLine, 0, `${indentation}// tslint:disable:${rules}${eol}`);
+	if (endLine + 1 < lines.length) {
+		return [disable, insertText(endLine + 1, 0, `${indentation}// tslint:enable:${rules}${eol}`)];
+	}
+	return [disable, insertText(endLine, lines[endLine].length, `${eol}${indentation}// tslint:enable:${rules}`)];
+}
+
+/**
+ * A failure disabled by a comment, the positions are offsets in the text of the file.
+ */
+export interface SuppressedFailure {
+	ruleName: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * A comment that disables rules but that does not disable a failure of some or all of its rules.
+ */
+export interface UnusedDisableComment {
+	line: number;
+	comment: DisableComment;
+	// the rule names of the comment that do not disable a failure, empty when the comment applies to all rules
+	unusedRules: string[];
+	// true when the comment does not disable any failure
+	unused: boolean;
+}
+
+interface DisabledInterval {
+	// the offsets of the disabled text, the end is -1 for the rest of the file
+	pos: number;
+	end: number;
+	directive: Directive;
+}
+
+interface Directive {
+	line: number;
+	comment: DisableComment;
+	// the rules that disable a failure, 'all' for a comment that applies to all rules
+	usedRules: Set<string>;
+}
+
+function getLineStarts(text: string): number[] {
+	let lineStarts = [0];
+	let eolPattern = /\r\n|\r|\n/g;
+	let match: RegExpExecArray | null;
+	while ((match = eolPattern.exec(text)) !== null) {
+		lineStarts.push(match.index + match[0].length);
+	}
+	return lineStarts;
+}
+
+/**
+ * Returns the comments disabling rules that do not disable any of the given failures. The intervals disabled by
+ * the comments are computed like tslint does, e.g. a comment that disables a rule that is already disabled has no effect.
+ */
+export function findUnusedDisableComments(text: string, suppressedFailures: SuppressedFailure[]): UnusedDisableComment[] {
+	let lines = getLines(text);
+	let lineStarts = getLineStarts(text);
+	let lineStart = (line: number) => line < lineStarts.length ? lineStarts[line] : -1;
+	let ruleNames = new Set(suppressedFailures.map(each => each.ruleName));
+	let intervals = new Map<string, DisabledInterval[]>(); // key is the rule name
+	let directives: Directive[] = [];
+
+	lines.forEach((lineText, line) => {
+		if (lineText.indexOf('tslint:') === -1) {
+			return;
+		}
+		for (let comment of parseDisableComments(lineText)) {
+			// tslint ignores a comment with a colon that is not followed by rule names
+			if (comment.listStart !== undefined && lineText.substring(comment.listStart, comment.listEnd).trim().length === 0) {
+				continue;
+			}
+			let range = comment.modifier === 'line' ? { pos: lineStart(line), end: lineStart(line + 1) } :
+				comment.modifier === 'next-line' ? { pos: lineStart(line + 1), end: lineStart(line + 2) } :
+					{ pos: lineStarts[line] + comment.start, end: -1 };
+			if (range.pos === -1) {
+				// there is no next line
+				continue;
+			}
+			let directive: Directive = { line, comment, usedRules: new Set<string>() };
+			if (comment.kind === 'disable') {
+				directives.push(directive);
+			}
+			let rules = comment.rules.length > 0 ? comment.rules.filter(each => ruleNames.has(each)) : Array.from(ruleNames);
+			for (let rule of rules) {
+				let ruleIntervals = intervals.get(rule);
+				let last = ruleIntervals && ruleIntervals[ruleIntervals.length - 1];
+				if (comment.kind === 'enable') {
+					if (last && last.end === -1) {
+						last.end = range.pos;
+						if (range.end !== -1) {
+							// the rule is disabled again after the enabled line
+							ruleIntervals!.push({ pos: range.end, end: -1, directive: last.directive });
+						}
+					}
+				} else if (!ruleIntervals) {
+					intervals.set(rule, [{ pos: range.pos, end: range.end, directive }]);
+				} else if (last!.end !== -1) {
+					ruleIntervals.push({ pos: range.pos, end: range.end, directive });
+				}
+			}
+		}
+	});
+
+	for (let failure of suppressedFailures) {
+		for (let interval of intervals.get(failure.ruleName) || []) {
+			if (failure.end >= interval.pos && (interval.end === -1 || failure.start < interval.end)) {
+				interval.directive.usedRules.add(failure.ruleName);
+			}
+		}
+	}
+
+	let result: UnusedDisableComment[] = [];
+	for (let directive of directives) {
+		let unusedRules = directive.comment.rules.filter(each => !directive.usedRules.has(each));
+		let unused = directive.usedRules.size === 0;
+		if (unused || unusedRules.length > 0) {
+			result.push({ line: directive.line, comment: directive.comment, unusedRules, unused });
+		}
+	}
+	return result;
+}
+
+/**
+ * Removes a comment that disables rules. A comment that is the only content of its line is removed with the line.
+ */
+export function createRemoveCommentEdit(lines: string[], line: number, comment: DisableComment): TSLintAutofixEdit {
+	let text = lines[line];
+	if (text.trim() === text.substring(comment.start, comment.end).trim()) {
+		if (line + 1 < lines.length) {
+			return { range: [server.Position.create(line, 0), server.Position.create(line + 1, 0)], text: '' };
+		}
+		if (line > 0) {
+			return { range: [server.Position.create(line - 1, lines[line - 1].length), server.Position.create(line, text.length)], text: '' };
+		}
+		return { range: [server.Position.create(line, 0), server.Position.create(line, text.length)], text: '' };
+	}
+	if (text.substring(comment.end).trim().length > 0) {
+		// remove the comment and the whitespace following it when there is code after the comment
+		let end = comment.end + (text.substring(comment.end).length - text.substring(comment.end).trimLeft().length);
+		return { range: [server.Position.create(line, comment.start), server.Position.create(line, end)], text: '' };
+	}
+	let start = text.substring(0, comment.start).trimRight().length;
+	return { range: [server.Position.create(line, start), server.Position.create(line, text.length)], text: '' };
+}
+
+/**
+ * Removes rule names from a comment that disables rules, the comment is removed when no rule name remains.
+ */
+export function createRemoveRulesEdit(lines: string[], line: number, comment: DisableComment, ruleNames: string[]): TSLintAutofixEdit {
+	let remaining = comment.rules.filter(each => ruleNames.indexOf(each) === -1);
+	if (remaining.length === 0 || comment.rulesStart === undefined) {
+		return createRemoveCommentEdit(lines, line, comment);
+	}
+	return {
+		range: [server.Position.create(line, comment.rulesStart), server.Position.create(line, comment.rulesEnd!)],
+		text: remaining.join(' ')
+	};
+}
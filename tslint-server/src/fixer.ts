@@ -1,5 +1,7 @@
 import * as server from 'vscode-languageserver';
-import * as tslint from 'tslint'; // this is a dev dependency only
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { LintFailure, LintFailurePosition } from './runner';
 
 // Tslint fixers provided by the extensions
 
@@ -11,12 +13,12 @@ export interface TSLintAutofixEdit {
 type FixResult = TSLintAutofixEdit | undefined;
 
 interface FixCreator {
-	(problem: tslint.RuleFailure, document: server.TextDocument): FixResult;
+	(problem: LintFailure, document: TextDocument): FixResult;
 }
 
 let fixes = new Map<string, FixCreator>();
 
-let quoteFixCreator: FixCreator = (problem: tslint.RuleFailure, document: server.TextDocument): FixResult => {
+let quoteFixCreator: FixCreator = (problem: LintFailure, document: TextDocument): FixResult => {
 	// error message: ' should be "   or " should be '
 	const wrongQuote = problem.getFailure()[0];
 	const fixedQuote = wrongQuote === "'" ? '"' : "'";
@@ -28,7 +30,7 @@ let quoteFixCreator: FixCreator = (problem: tslint.RuleFailure, document: server
 };
 fixes['quotemark'] = quoteFixCreator;
 
-let whiteSpaceFixCreator: FixCreator = (problem: tslint.RuleFailure, document: server.TextDocument): FixResult => {
+let whiteSpaceFixCreator: FixCreator = (problem: LintFailure, document: TextDocument): FixResult => {
 	// error message: 'missing whitespace'
 	if (problem.getFailure() !== 'missing whitespace') {
 		return undefined;
@@ -41,7 +43,7 @@ let whiteSpaceFixCreator: FixCreator = (problem: tslint.RuleFailure, document: s
 };
 fixes['whitespace'] = whiteSpaceFixCreator;
 
-let tripleEqualsFixCreator: FixCreator = (problem: tslint.RuleFailure, _document: server.TextDocument): FixResult => {
+let tripleEqualsFixCreator: FixCreator = (problem: LintFailure, _document: TextDocument): FixResult => {
 	// error message: '== should be ===' or '!= should be !=='
 	let contents: string | undefined = undefined;
 	if (problem.getFailure() === '== should be ===') {
@@ -58,7 +60,7 @@ let tripleEqualsFixCreator: FixCreator = (problem: tslint.RuleFailure, _document
 };
 fixes['triple-equals'] = tripleEqualsFixCreator;
 
-let commentFormatFixCreator: FixCreator = (problem: tslint.RuleFailure, document: server.TextDocument): FixResult => {
+let commentFormatFixCreator: FixCreator = (problem: LintFailure, document: TextDocument): FixResult => {
 	// error messages:
 	//   'comment must start with a space'
 	//   'comment must start with lowercase letter'
@@ -98,20 +100,20 @@ let commentFormatFixCreator: FixCreator = (problem: tslint.RuleFailure, document
 
 fixes['comment-format'] = commentFormatFixCreator;
 
-function convertToServerPosition(position: tslint.RuleFailurePosition): server.Position {
+function convertToServerPosition(position: LintFailurePosition): server.Position {
 	return {
 		character: position.getLineAndCharacter().character,
 		line: position.getLineAndCharacter().line
 	};
 }
 
-function convertProblemPositionsToRange(problem: tslint.RuleFailure): [server.Position, server.Position] {
+function convertProblemPositionsToRange(problem: LintFailure): [server.Position, server.Position] {
 	let startPosition = convertToServerPosition(problem.getStartPosition());
 	let endPosition = convertToServerPosition(problem.getEndPosition());
 	return [startPosition, endPosition];
 }
 
-export function createVscFixForRuleFailure(problem: tslint.RuleFailure, document: server.TextDocument): TSLintAutofixEdit | undefined {
+export function createVscFixForRuleFailure(problem: LintFailure, document: TextDocument): TSLintAutofixEdit | undefined {
 	let creator = fixes[problem.getRuleName()];
 	if (creator) {
 		return creator(problem, document);
@@ -0,0 +1,120 @@
+import * as cp from 'child_process';
+import * as path from 'path';
+import { diffLines } from './diff';
+
+// Support for reporting only the problems on the lines that are changed according to git
+
+/**
+ * The revision the contents of a document are compared with: the HEAD commit, the merge base of HEAD and the main
+ * branch, or the staged contents of the file in the index
+ */
+export type ChangedLinesBase = 'HEAD' | 'mergeBase' | 'staged';
+
+/**
+ * A range of lines, the start is inclusive and the end is exclusive. The lines are zero based.
+ */
+export interface LineRange {
+	start: number;
+	end: number;
+}
+
+/**
+ * The changed lines of a file, 'all' when every line is considered changed, e.g. for a file that is not tracked
+ */
+export type ChangedLines = LineRange[] | 'all';
+
+/**
+ * Returns the changed lines of the contents compared with the contents of the base, all lines are changed when
+ * the file does not exist in the base
+ */
+export function computeChangedLines(baseContents: string | undefined, contents: string): ChangedLines {
+	if (baseContents === undefined) {
+		return 'all';
+	}
+	// git does not convert the line endings of the contents in the repository, the line endings are ignored
+	let changes = diffLines(baseContents.split(/\r\n|\r|\n/), contents.split(/\r\n|\r|\n/));
+	return changes.map(each => each.modifiedStart === each.modifiedEnd
+		// lines were deleted before the start line, the lines around the deletion are treated as changed
+		? { start: Math.max(each.modifiedStart - 1, 0), end: each.modifiedStart + 1 }
+		: { start: each.modifiedStart, end: each.modifiedEnd }
+	);
+}
+
+/**
+ * Returns whether a range of lines touches a changed line, the end line is inclusive
+ */
+export function touchesChangedLines(changedLines: ChangedLines, startLine: number, endLine: number): boolean {
+	if (changedLines === 'all') {
+		return true;
+	}
+	return changedLines.some(each => startLine < each.end && endLine >= each.start);
+}
+
+/**
+ * Returns whether a file in a git directory records the HEAD, the refs or the index of a repository, a change of
+ * these files may change the contents a file is compared with
+ */
+export function isRepositoryStateFile(filePath: string, gitDirectory: string): boolean {
+	let relativePath = path.relative(gitDirectory, filePath);
+	if (relativePath.length === 0 || path.isAbsolute(relativePath)) {
+		return false;
+	}
+	return ['HEAD', 'index', 'packed-refs', 'refs'].indexOf(relativePath.split(path.sep)[0]) !== -1;
+}
+
+/**
+ * Returns the files that record the HEAD, the refs and the index of a repository as glob patterns
+ */
+export function getRepositoryStateFilePatterns(gitDirectory: string): string[] {
+	return [path.join(gitDirectory, '{HEAD,index,packed-refs}'), path.join(gitDirectory, 'refs', '**')];
+}
+
+function git(args: string[], cwd: string): Promise<string> {
+	return new Promise<string>((resolve, reject) => {
+		cp.execFile('git', args, { cwd, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+			if (error) {
+				reject(new Error(stderr || error.message));
+			} else {
+				resolve(stdout);
+			}
+		});
+	});
+}
+
+/**
+ * Runs git to find the git directories of the repository that contains a file, the directory of a linked worktree
+ * records its HEAD and index and the common directory records the refs. The repository may contain the workspace
+ * folder. Rejects when the file is not in a git repository.
+ */
+export async function getGitDirectories(filePath: string): Promise<string[]> {
+	let cwd = path.dirname(filePath);
+	let directories = (await git(['rev-parse', '--git-dir', '--git-common-dir'], cwd)).split(/\r?\n/)
+		.filter(each => each.length > 0)
+		.map(each => path.resolve(cwd, each));
+	return directories.filter((each, index) => directories.indexOf(each) === index);
+}
+
+/**
+ * Runs git to read the contents of a file in the revision it is compared with, undefined when the file does not
+ * exist in that revision, e.g. when the file is not tracked. Rejects when git fails, e.g. when the file is not in
+ * a git repository.
+ */
+export async function getBaseContents(filePath: string, base: ChangedLinesBase, mainBranch: string): Promise<string | undefined> {
+	let cwd = path.dirname(filePath);
+	let fileName = path.basename(filePath);
+	let revision = '';
+	if (base === 'HEAD') {
+		revision = 'HEAD';
+	} else if (base === 'mergeBase') {
+		revision = (await git(['merge-base', 'HEAD', mainBranch], cwd)).trim();
+	}
+	// without a revision the file is compared with its staged contents, the name of the file is not a pattern
+	let listed = revision
+		? await git(['--literal-pathspecs', 'ls-tree', '--name-only', revision, '--', fileName], cwd)
+		: await git(['--literal-pathspecs', 'ls-files', '--', fileName], cwd);
+	if (listed.trim().length === 0) {
+		return undefined;
+	}
+	// the path of the file is relative to the working directory when it starts with ./
+	return git(['show', `${revision}:./${fileName}`], cwd);
+}
@@ -0,0 +1,234 @@
+import * as cp from 'child_process';
+import * as stream from 'stream';
+import { CancellationToken, Disposable } from 'vscode-languageserver/node';
+
+import { LintRequest, OpenDocument, progressFd, WorkerRequest, WorkerResponse } from './lintWorkerProtocol';
+import { RunConfiguration, RunResult } from './runner';
+import { deserializeRunResult } from './serialization';
+
+interface PendingRequest {
+	id: number;
+	filePath: string;
+	contents: string;
+	typeCheck: boolean;
+	configuration: RunConfiguration;
+	timeout: number;
+	resolve: (result: RunResult) => void;
+	reject: (error: Error) => void;
+	cancellation: Disposable | undefined;
+}
+
+/**
+ * Runs the tslint library in a separate process so that a rule that never returns or crashes
+ * does not take down the server. Files are linted one at a time. A worker that does not finish
+ * linting a file within the time limit is killed, a new worker is started for the next request.
+ * A cancelled request is removed from the queue, the worker is killed when it is linting the file.
+ */
+export class IsolatedRunner {
+	private worker: cp.ChildProcess | undefined;
+	private readonly queue: PendingRequest[] = [];
+	private active: PendingRequest | undefined;
+	private activeTimer: NodeJS.Timer | undefined;
+	private nextId = 1;
+	// the last progress line reported by the worker, the file and the rule that is running
+	private progress = '';
+	// the versions of the open documents known by the worker, key is the path of the document
+	private readonly sentVersions = new Map<string, number>();
+
+	constructor(
+		private readonly workerModulePath: string,
+		private readonly getOpenDocuments: () => OpenDocument[],
+		private readonly trace: (message: string) => void
+	) { }
+
+	public runTsLint(filePath: string, contents: string, typeCheck: boolean, configuration: RunConfiguration, timeout: number, token?: CancellationToken): Promise<RunResult> {
+		return new Promise<RunResult>((resolve, reject) => {
+			let pending: PendingRequest = { id: -1, filePath, contents, typeCheck, configuration, timeout, resolve, reject, cancellation: undefined };
+			if (token) {
+				if (token.isCancellationRequested) {
+					reject(new Error(`vscode-tslint: linting ${filePath} was cancelled.`));
+					return;
+				}
+				pending.cancellation = token.onCancellationRequested(() => this.onCancel(pending));
+			}
+			this.queue.push(pending);
+			this.processQueue();
+		});
+	}
+
+	public onDidChangeFile(filePath: string, fileNamesChanged: boolean) {
+		this.notify({ type: 'fileChanged', filePath, fileNamesChanged });
+	}
+
+	public onDidChangeProjectConfig(filePath: string) {
+		this.notify({ type: 'projectConfigChanged', filePath });
+	}
+
+	public onConfigFileChange(filePath: string) {
+		this.notify({ type: 'configFileChanged', filePath });
+	}
+
+	public dispose() {
+		this.killWorker();
+	}
+
+	private notify(notification: WorkerRequest) {
+		// a worker that is not running yet starts without any cached state
+		if (this.worker) {
+			this.worker.send(notification);
+		}
+	}
+
+	private processQueue() {
+		if (this.active || this.queue.length === 0) {
+			return;
+		}
+		let pending = this.queue.shift()!;
+		let worker = this.getWorker();
+		pending.id = this.nextId++;
+		this.active = pending;
+		this.progress = '';
+
+		let request: LintRequest = {
+			type: 'lint',
+			id: pending.id,
+			filePath: pending.filePath,
+			contents: pending.contents,
+			typeCheck: pending.typeCheck,
+			configuration: pending.configuration,
+			openDocuments: [],
+			closedDocuments: []
+		};
+		if (pending.typeCheck) {
+			this.addDocumentChanges(request);
+		}
+		this.activeTimer = setTimeout(() => this.onTimeout(pending), pending.timeout);
+		worker.send(request);
+	}
+
+	private addDocumentChanges(request: LintRequest) {
+		let openDocuments = this.getOpenDocuments();
+		let openPaths = new Set<string>();
+		for (let document of openDocuments) {
+			openPaths.add(document.filePath);
+			if (this.sentVersions.get(document.filePath) !== document.version) {
+				this.sentVersions.set(document.filePath, document.version);
+				request.openDocuments.push(document);
+			}
+		}
+		for (let filePath of Array.from(this.sentVersions.keys())) {
+			if (!openPaths.has(filePath)) {
+				this.sentVersions.delete(filePath);
+				request.closedDocuments.push(filePath);
+			}
+		}
+	}
+
+	private getWorker(): cp.ChildProcess {
+		if (this.worker) {
+			return this.worker;
+		}
+		this.trace('Starting the linter process');
+		// do not inherit the debug options of the server, the debug port is already in use
+		let worker = cp.fork(this.workerModulePath, [], { execArgv: [], stdio: ['ignore', 'inherit', 'inherit', 'ipc', 'pipe'] });
+		worker.on('message', (response: WorkerResponse) => this.onMessage(response));
+		worker.on('exit', (code: number | null, signal: string | null) => this.onExit(worker, code, signal));
+
+		let progress = <stream.Readable>(<any>worker.stdio)[progressFd];
+		progress.setEncoding('utf8');
+		progress.on('data', (chunk: string) => {
+			let lines = chunk.split('\n').filter(each => each.length > 0);
+			if (lines.length > 0) {
+				this.progress = lines[lines.length - 1];
+			}
+		});
+
+		this.worker = worker;
+		this.sentVersions.clear();
+		return worker;
+	}
+
+	private killWorker() {
+		let worker = this.worker;
+		if (worker) {
+			this.worker = undefined;
+			worker.kill('SIGKILL');
+		}
+	}
+
+	private finishActive(): PendingRequest | undefined {
+		let active = this.active;
+		if (this.activeTimer) {
+			clearTimeout(this.activeTimer);
+			this.activeTimer = undefined;
+		}
+		this.active = undefined;
+		if (active && active.cancellation) {
+			active.cancellation.dispose();
+		}
+		return active;
+	}
+
+	private onMessage(response: WorkerResponse) {
+		if (response.type === 'trace') {
+			this.trace(response.message);
+			return;
+		}
+		if (!this.active || this.active.id !== response.id) {
+			return;
+		}
+		let active = this.finishActive()!;
+		if (response.type === 'result') {
+			active.resolve(deserializeRunResult(response.result));
+		} else {
+			active.reject(new Error(response.message));
+		}
+		this.processQueue();
+	}
+
+	private onTimeout(pending: PendingRequest) {
+		if (this.active !== pending) {
+			return;
+		}
+		this.finishActive();
+		this.killWorker();
+		pending.reject(new Error(`vscode-tslint: linting ${pending.filePath} did not finish within ${pending.timeout}ms ${this.describeProgress()}. The linter process has been restarted.`));
+		this.processQueue();
+	}
+
+	private onCancel(pending: PendingRequest) {
+		let index = this.queue.indexOf(pending);
+		if (index !== -1) {
+			this.queue.splice(index, 1);
+			pending.cancellation!.dispose();
+		} else if (this.active === pending) {
+			// the worker cannot be interrupted while a rule runs, a new worker is started for the next request
+			this.trace(`Linting ${pending.filePath} was cancelled, the linter process is restarted`);
+			this.finishActive();
+			this.killWorker();
+		} else {
+			return;
+		}
+		pending.reject(new Error(`vscode-tslint: linting ${pending.filePath} was cancelled.`));
+		this.processQueue();
+	}
+
+	private onExit(worker: cp.ChildProcess, code: number | null, signal: string | null) {
+		// ignore workers that have been killed on purpose
+		if (worker !== this.worker) {
+			return;
+		}
+		this.worker = undefined;
+		this.trace(`The linter process exited with code ${code} and signal ${signal}`);
+		let active = this.finishActive();
+		if (active) {
+			active.reject(new Error(`vscode-tslint: the linter process terminated unexpectedly while linting ${active.filePath} ${this.describeProgress()}. The linter process will be restarted.`));
+		}
+		this.processQueue();
+	}
+
+	private describeProgress(): string {
+		let ruleName = this.progress.split('\t')[1];
+		return ruleName ? `while running the rule '${ruleName}'` : 'before a rule was run';
+	}
+}
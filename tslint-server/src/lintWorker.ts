@@ -0,0 +1,93 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+'use strict';
+
+// The entry point of the process that runs the tslint library isolated from the server process.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as typescript from 'typescript'; // this is a dev dependency only
+
+import { LintRequest, OpenDocument, progressFd, WorkerRequest, WorkerResponse } from './lintWorkerProtocol';
+import { ProgramCache } from './programCache';
+import { RuleHooks, TsLintRunner } from './runner';
+import { serializeRunResult } from './serialization';
+
+let openDocuments = new Map<string, OpenDocument>(); // key is the normalized path of the document
+
+function send(response: WorkerResponse) {
+	process.send!(response);
+}
+
+function trace(message: string) {
+	send({ type: 'trace', message });
+}
+
+let runner = new TsLintRunner(trace);
+let programCache = new ProgramCache({
+	getVersion: (filePath) => {
+		let document = openDocuments.get(filePath);
+		return document ? document.version : undefined;
+	},
+	getText: (filePath) => {
+		let document = openDocuments.get(filePath);
+		return document ? document.text : undefined;
+	}
+}, trace);
+
+function reportProgress(filePath: string, ruleName: string) {
+	try {
+		fs.writeSync(progressFd, `${filePath}\t${ruleName}\n`);
+	} catch (err) {
+		// the progress is only used to report a hanging or crashing rule
+	}
+}
+
+function lint(request: LintRequest) {
+	request.closedDocuments.forEach(each => openDocuments.delete(path.normalize(each)));
+	request.openDocuments.forEach(each => openDocuments.set(path.normalize(each.filePath), each));
+
+	reportProgress(request.filePath, '');
+	let contents: string | typescript.Program = request.contents;
+	if (request.typeCheck) {
+		let ts = runner.loadTypeScript(request.filePath, request.configuration);
+		let program = ts ? programCache.getProgram(ts, request.filePath) : undefined;
+		if (program) {
+			contents = program;
+		}
+	}
+	let hooks: RuleHooks = {
+		beforeRule: (ruleName) => reportProgress(request.filePath, ruleName)
+	};
+	let result = runner.runTsLint(request.filePath, contents, request.configuration, hooks);
+	if (typeof contents !== 'string') {
+		result = { ...result, projectDependencies: programCache.getExtendedConfigFiles() };
+	}
+	send({ type: 'result', id: request.id, result: serializeRunResult(result) });
+}
+
+process.on('message', (request: WorkerRequest) => {
+	switch (request.type) {
+		case 'lint':
+			try {
+				lint(request);
+			} catch (err) {
+				send({ type: 'error', id: request.id, message: `vscode-tslint: '${err.message}' while validating: ${request.filePath} stacktrace: ${err.stack}` });
+			}
+			break;
+		case 'fileChanged':
+			programCache.onDidChangeFile(request.filePath, request.fileNamesChanged);
+			break;
+		case 'projectConfigChanged':
+			programCache.onDidChangeProjectConfig(request.filePath);
+			break;
+		case 'configFileChanged':
+			// see the server, configuration files can be cached in the node module cache
+			if (request.filePath && require.cache[request.filePath]) {
+				delete require.cache[request.filePath];
+			}
+			runner.onConfigFileChange(request.filePath);
+			break;
+	}
+});
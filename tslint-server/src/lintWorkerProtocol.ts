@@ -0,0 +1,66 @@
+import { RunConfiguration } from './runner';
+import { SerializedRunResult } from './serialization';
+
+// The messages exchanged between the server and the process that runs the tslint library
+
+/**
+ * The worker reports the file and the rule it is about to run on this file descriptor. The progress
+ * is written synchronously so that it reaches the server even when a rule never returns.
+ */
+export const progressFd = 4;
+
+export interface OpenDocument {
+	filePath: string;
+	version: number;
+	text: string;
+}
+
+export interface LintRequest {
+	type: 'lint';
+	id: number;
+	filePath: string;
+	contents: string;
+	typeCheck: boolean;
+	configuration: RunConfiguration;
+	// the open documents that changed since the last request, only sent when type checking
+	openDocuments: OpenDocument[];
+	closedDocuments: string[];
+}
+
+export interface FileChangedNotification {
+	type: 'fileChanged';
+	filePath: string;
+	fileNamesChanged: boolean;
+}
+
+export interface ProjectConfigChangedNotification {
+	type: 'projectConfigChanged';
+	// a tsconfig.json file or a configuration file extended by it
+	filePath: string;
+}
+
+export interface ConfigFileChangedNotification {
+	type: 'configFileChanged';
+	filePath: string;
+}
+
+export type WorkerRequest = LintRequest | FileChangedNotification | ProjectConfigChangedNotification | ConfigFileChangedNotification;
+
+export interface LintResponse {
+	type: 'result';
+	id: number;
+	result: SerializedRunResult;
+}
+
+export interface LintErrorResponse {
+	type: 'error';
+	id: number;
+	message: string;
+}
+
+export interface TraceMessage {
+	type: 'trace';
+	message: string;
+}
+
+export type WorkerResponse = LintResponse | LintErrorResponse | TraceMessage;
@@ -0,0 +1,173 @@
+import * as path from 'path';
+import * as typescript from 'typescript'; // this is a dev dependency only
+
+/**
+ * Provides the contents of the documents that are open in the editor. The contents of an open
+ * document take precedence over the contents of the file on disk.
+ */
+export interface DocumentOverlay {
+	getVersion(filePath: string): number | undefined;
+	getText(filePath: string): string | undefined;
+}
+
+interface Project {
+	readonly ts: typeof typescript;
+	readonly configFilePath: string;
+	readonly languageService: typescript.LanguageService;
+	fileNames: string[];
+	fileNamesOutdated: boolean;
+	options: typescript.CompilerOptions;
+	extendedConfigFiles: string[]; // the normalized paths of the configuration files in the extends chain
+}
+
+function normalize(fileName: string): string {
+	return path.normalize(fileName);
+}
+
+/**
+ * Keeps a TypeScript program for each tsconfig.json file. A program is created from a language service
+ * so that it is updated incrementally when a document changes.
+ */
+export class ProgramCache {
+	private readonly projects = new Map<string, Project>(); // key is the path of the tsconfig.json file
+	private readonly diskVersions = new Map<string, number>(); // key is the normalized path of a file
+
+	constructor(
+		private readonly overlay: DocumentOverlay,
+		private readonly trace: (message: string) => void
+	) { }
+
+	/**
+	 * Returns the program of the tsconfig.json file closest to the given file, or undefined when
+	 * the file is not part of a program.
+	 */
+	public getProgram(ts: typeof typescript, filePath: string): typescript.Program | undefined {
+		let configFilePath = ts.findConfigFile(path.dirname(filePath), ts.sys.fileExists);
+		if (!configFilePath) {
+			this.trace(`No program: no tsconfig.json found for ${filePath}`);
+			return undefined;
+		}
+
+		let project = this.projects.get(configFilePath);
+		if (project && project.ts !== ts) {
+			this.disposeProject(configFilePath);
+			project = undefined;
+		}
+		try {
+			if (!project) {
+				project = this.createProject(ts, configFilePath);
+			} else if (project.fileNamesOutdated) {
+				this.updateFileNames(project);
+			}
+			let program = project.languageService.getProgram();
+			if (!program || !program.getSourceFile(filePath)) {
+				this.trace(`No program: ${filePath} is not part of the program of ${configFilePath}`);
+				return undefined;
+			}
+			return program;
+		} catch (err) {
+			this.trace(`No program: failed to create the program for ${configFilePath} - ${err.message}`);
+			return undefined;
+		}
+	}
+
+	/**
+	 * A file on disk has changed, was created or deleted
+	 */
+	public onDidChangeFile(filePath: string, fileNamesChanged: boolean) {
+		let key = normalize(filePath);
+		this.diskVersions.set(key, (this.diskVersions.get(key) || 0) + 1);
+		if (fileNamesChanged) {
+			this.projects.forEach(project => project.fileNamesOutdated = true);
+		}
+	}
+
+	/**
+	 * Returns the configuration files extended by the tsconfig.json files of the programs
+	 */
+	public getExtendedConfigFiles(): string[] {
+		let files = new Set<string>();
+		this.projects.forEach(project => project.extendedConfigFiles.forEach(each => files.add(each)));
+		return Array.from(files);
+	}
+
+	/**
+	 * A tsconfig.json file or a configuration file extended by a tsconfig.json file has changed,
+	 * recreate the affected programs when they are requested next
+	 */
+	public onDidChangeProjectConfig(filePath: string) {
+		let key = normalize(filePath);
+		let all = path.basename(filePath) === 'tsconfig.json';
+		this.projects.forEach((project, configFilePath) => {
+			if (all || project.extendedConfigFiles.indexOf(key) !== -1) {
+				this.disposeProject(configFilePath);
+			}
+		});
+	}
+
+	private createProject(ts: typeof typescript, configFilePath: string): Project {
+		this.trace(`Create program for ${configFilePath}`);
+		let project: Project;
+		let host: typescript.LanguageServiceHost = {
+			getCompilationSettings: () => project.options,
+			getScriptFileNames: () => project.fileNames,
+			getScriptVersion: (fileName) => {
+				let key = normalize(fileName);
+				let version = this.overlay.getVersion(key);
+				if (version !== undefined) {
+					return `open-${version}`;
+				}
+				return `disk-${this.diskVersions.get(key) || 0}`;
+			},
+			getScriptSnapshot: (fileName) => {
+				let text = this.overlay.getText(normalize(fileName));
+				if (text === undefined) {
+					text = ts.sys.readFile(fileName);
+				}
+				return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+			},
+			getCurrentDirectory: () => path.dirname(configFilePath),
+			getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+			fileExists: ts.sys.fileExists,
+			readFile: ts.sys.readFile,
+			readDirectory: ts.sys.readDirectory,
+			directoryExists: ts.sys.directoryExists,
+			getDirectories: ts.sys.getDirectories,
+		};
+		project = {
+			ts,
+			configFilePath,
+			languageService: ts.createLanguageService(host, ts.createDocumentRegistry()),
+			fileNames: [],
+			fileNamesOutdated: true,
+			options: {},
+			extendedConfigFiles: []
+		};
+		this.updateFileNames(project);
+		this.projects.set(configFilePath, project);
+		return project;
+	}
+
+	private updateFileNames(project: Project) {
+		let ts = project.ts;
+		let configFile = ts.readConfigFile(project.configFilePath, ts.sys.readFile);
+		if (configFile.error) {
+			throw new Error(ts.flattenDiagnosticMessageText(configFile.error.messageText, '\n'));
+		}
+		let extendedConfigCache = new Map<string, typescript.ExtendedConfigCacheEntry>();
+		let parsed = ts.parseJsonConfigFileContent(configFile.config, ts.sys, path.dirname(project.configFilePath), undefined,
+			project.configFilePath, undefined, undefined, extendedConfigCache);
+		project.options = parsed.options;
+		project.extendedConfigFiles = Array.from(extendedConfigCache.values()).map(each => normalize(each.extendedResult.fileName));
+		project.fileNames = parsed.fileNames;
+		project.fileNamesOutdated = false;
+	}
+
+	private disposeProject(configFilePath: string) {
+		let project = this.projects.get(configFilePath);
+		if (project) {
+			project.languageService.dispose();
+			this.projects.delete(configFilePath);
+		}
+	}
+}
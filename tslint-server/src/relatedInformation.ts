@@ -0,0 +1,159 @@
+import * as typescript from 'typescript'; // this is a dev dependency only
+
+import { LintFailure } from './runner';
+
+// Some rules report a failure that refers to another location in the file, e.g. the first import of a module
+// for a duplicate import. The failure only has the location of the problem, the other location is found here.
+
+export interface RelatedLocation {
+	start: number;
+	end: number;
+	message: string;
+}
+
+interface RelatedLocationFinder {
+	(ts: typeof typescript, sourceFile: typescript.SourceFile, start: number, end: number): RelatedLocation[];
+}
+
+let finders = new Map<string, RelatedLocationFinder>();
+
+function findNode(ts: typeof typescript, sourceFile: typescript.SourceFile, start: number, end: number, predicate: (node: typescript.Node) => boolean): typescript.Node | undefined {
+	let visit = (node: typescript.Node): typescript.Node | undefined => {
+		if (node.getStart(sourceFile) === start && node.getEnd() === end && predicate(node)) {
+			return node;
+		}
+		if (node.pos <= start && node.end >= end) {
+			return ts.forEachChild(node, visit);
+		}
+		return undefined;
+	};
+	return ts.forEachChild(sourceFile, visit);
+}
+
+function forEachDescendant(ts: typeof typescript, node: typescript.Node, callback: (node: typescript.Node) => void) {
+	ts.forEachChild(node, child => {
+		callback(child);
+		forEachDescendant(ts, child, callback);
+	});
+}
+
+function location(sourceFile: typescript.SourceFile, node: typescript.Node, message: string): RelatedLocation {
+	return { start: node.getStart(sourceFile), end: node.getEnd(), message };
+}
+
+finders.set('no-duplicate-imports', (ts, sourceFile, start, end) => {
+	let duplicate = <typescript.ImportDeclaration | undefined>findNode(ts, sourceFile, start, end, ts.isImportDeclaration);
+	if (!duplicate || !ts.isStringLiteral(duplicate.moduleSpecifier)) {
+		return [];
+	}
+	let moduleName = duplicate.moduleSpecifier.text;
+	let statements = (<typescript.SourceFile | typescript.ModuleBlock>duplicate.parent).statements;
+	let first = statements.find(each => ts.isImportDeclaration(each) && ts.isStringLiteral(each.moduleSpecifier) && each.moduleSpecifier.text === moduleName);
+	return first && first !== duplicate ? [location(sourceFile, first, `The first import of '${moduleName}'`)] : [];
+});
+
+finders.set('no-duplicate-switch-case', (ts, sourceFile, start, end) => {
+	let expression = findNode(ts, sourceFile, start, end, node => ts.isCaseClause(node.parent) && node.parent.expression === node);
+	if (!expression) {
+		return [];
+	}
+	let text = expression.getText(sourceFile);
+	let caseBlock = <typescript.CaseBlock>expression.parent.parent;
+	let first = caseBlock.clauses.find(each => ts.isCaseClause(each) && each.expression.getText(sourceFile) === text);
+	return first && first !== expression.parent ? [location(sourceFile, (<typescript.CaseClause>first).expression, `The first case with '${text}'`)] : [];
+});
+
+function isDeclarationName(ts: typeof typescript, node: typescript.Node): node is typescript.Identifier {
+	return ts.isIdentifier(node) && (<typescript.NamedDeclaration>node.parent).name === node && (
+		ts.isVariableDeclaration(node.parent) || ts.isParameter(node.parent) || ts.isBindingElement(node.parent) ||
+		ts.isFunctionDeclaration(node.parent) || ts.isClassDeclaration(node.parent) || ts.isInterfaceDeclaration(node.parent) ||
+		ts.isTypeAliasDeclaration(node.parent) || ts.isEnumDeclaration(node.parent) || ts.isTypeParameterDeclaration(node.parent) ||
+		ts.isImportClause(node.parent) || ts.isImportSpecifier(node.parent) || ts.isNamespaceImport(node.parent)
+	);
+}
+
+function getFunctionScope(ts: typeof typescript, node: typescript.Node): typescript.Node {
+	let scope = node.parent;
+	while (!ts.isSourceFile(scope) && !ts.isFunctionLike(scope)) {
+		scope = scope.parent;
+	}
+	return scope;
+}
+
+/**
+ * Returns the node in which a declared name is visible
+ */
+function getScope(ts: typeof typescript, name: typescript.Identifier): typescript.Node {
+	let declaration = name.parent;
+	if (ts.isParameter(declaration) || ts.isTypeParameterDeclaration(declaration)) {
+		return declaration.parent;
+	}
+	if (ts.isFunctionDeclaration(declaration)) {
+		return getFunctionScope(ts, declaration);
+	}
+	while (ts.isBindingElement(declaration) || ts.isObjectBindingPattern(declaration) || ts.isArrayBindingPattern(declaration)) {
+		declaration = declaration.parent;
+	}
+	if (ts.isVariableDeclaration(declaration) && ts.isVariableDeclarationList(declaration.parent) &&
+		(declaration.parent.flags & (ts.NodeFlags.Let | ts.NodeFlags.Const)) === 0) {
+		return getFunctionScope(ts, declaration);
+	}
+	let scope = declaration.parent;
+	while (!ts.isSourceFile(scope) && !ts.isBlock(scope) && !ts.isModuleBlock(scope) && !ts.isCaseBlock(scope) && !ts.isFunctionLike(scope) &&
+		!ts.isForStatement(scope) && !ts.isForInStatement(scope) && !ts.isForOfStatement(scope) && !ts.isCatchClause(scope)) {
+		scope = scope.parent;
+	}
+	return scope;
+}
+
+finders.set('no-duplicate-variable', (ts, sourceFile, start, end) => {
+	let duplicate = findNode(ts, sourceFile, start, end, node => isDeclarationName(ts, node));
+	if (!duplicate) {
+		return [];
+	}
+	let name = (<typescript.Identifier>duplicate).text;
+	let scope = getFunctionScope(ts, duplicate);
+	let first: typescript.Node | undefined = undefined;
+	forEachDescendant(ts, scope, node => {
+		if (!first && node !== duplicate && node.pos < duplicate!.pos && isDeclarationName(ts, node) && node.text === name && getFunctionScope(ts, node) === scope) {
+			first = node;
+		}
+	});
+	return first ? [location(sourceFile, first, `The first declaration of '${name}'`)] : [];
+});
+
+finders.set('no-shadowed-variable', (ts, sourceFile, start, end) => {
+	let shadowing = findNode(ts, sourceFile, start, end, node => isDeclarationName(ts, node));
+	if (!shadowing) {
+		return [];
+	}
+	let name = (<typescript.Identifier>shadowing).text;
+	let shadowingScope = getScope(ts, <typescript.Identifier>shadowing);
+	// the shadowed declaration is the closest declaration of the name in a scope that encloses the shadowing declaration
+	let shadowed: typescript.Identifier | undefined = undefined;
+	let shadowedScope: typescript.Node | undefined = undefined;
+	forEachDescendant(ts, sourceFile, node => {
+		if (node === shadowing || !isDeclarationName(ts, node) || node.text !== name) {
+			return;
+		}
+		let scope = getScope(ts, node);
+		if (scope !== shadowingScope && scope.pos <= shadowingScope.pos && scope.end >= shadowingScope.end &&
+			(!shadowedScope || (scope.pos >= shadowedScope.pos && scope.end <= shadowedScope.end))) {
+			shadowed = node;
+			shadowedScope = scope;
+		}
+	});
+	return shadowed ? [location(sourceFile, shadowed, `The shadowed declaration of '${name}'`)] : [];
+});
+
+export function hasRelatedLocations(ruleName: string): boolean {
+	return finders.has(ruleName);
+}
+
+export function findRelatedLocations(ts: typeof typescript, sourceFile: typescript.SourceFile, failure: LintFailure): RelatedLocation[] {
+	let finder = finders.get(failure.getRuleName());
+	if (!finder) {
+		return [];
+	}
+	return finder(ts, sourceFile, failure.getStartPosition().getPosition(), failure.getEndPosition().getPosition());
+}
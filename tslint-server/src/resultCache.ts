@@ -0,0 +1,112 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SerializedRunResult } from './serialization';
+
+// increment when the format of the cached results changes
+const formatVersion = 1;
+
+interface CacheEntry {
+    readonly formatVersion: number;
+    readonly key: string;
+    readonly result: SerializedRunResult;
+}
+
+export function hash(...texts: string[]): string {
+    const hasher = crypto.createHash('sha1');
+    for (const text of texts) {
+        // separate the texts so that their boundaries are part of the hash
+        hasher.update(`${text.length}:`);
+        hasher.update(text);
+    }
+    return hasher.digest('hex');
+}
+
+/**
+ * Returns the JSON of a value with the keys of the objects sorted, so that equal values have the same JSON
+ */
+export function stableStringify(value: any): string {
+    return JSON.stringify(value, (_key, each) => {
+        if (!each || typeof each !== 'object' || Array.isArray(each)) {
+            return each;
+        }
+        const sorted: { [key: string]: any } = {};
+        Object.keys(each).sort().forEach(key => sorted[key] = each[key]);
+        return sorted;
+    });
+}
+
+// every linted file has a single entry, a result with a different key replaces the entry
+function getEntryPath(directory: string, filePath: string): string {
+    return path.join(directory, `${hash(filePath)}.json`);
+}
+
+/**
+ * Read the cached result of a file, undefined when there is no result for the given key. Reading a result marks
+ * it as recently used.
+ */
+export function readCachedResult(directory: string, filePath: string, key: string): SerializedRunResult | undefined {
+    const entryPath = getEntryPath(directory, filePath);
+    let entry: CacheEntry;
+    try {
+        entry = JSON.parse(fs.readFileSync(entryPath, 'utf8'));
+    } catch {
+        return undefined;
+    }
+    if (!entry || entry.formatVersion !== formatVersion || entry.key !== key) {
+        return undefined;
+    }
+    // the modification time of an entry is the time it was last used
+    try {
+        const now = new Date();
+        fs.utimesSync(entryPath, now, now);
+    } catch {
+        // the entry was removed by another process
+    }
+    return entry.result;
+}
+
+/**
+ * Write the result of a file to the cache. The entry is written to a temporary file first so that other
+ * processes sharing the cache never read a partially written entry.
+ */
+export function writeCachedResult(directory: string, filePath: string, key: string, result: SerializedRunResult): void {
+    const entry: CacheEntry = { formatVersion, key, result };
+    const entryPath = getEntryPath(directory, filePath);
+    const temporaryPath = `${entryPath}.${process.pid}.tmp`;
+    fs.mkdirSync(directory, { recursive: true });
+    fs.writeFileSync(temporaryPath, JSON.stringify(entry));
+    fs.renameSync(temporaryPath, entryPath);
+}
+
+/**
+ * Remove the least recently used entries when the cache has more than the given number of entries
+ */
+export function pruneCachedResults(directory: string, maxEntries: number): void {
+    let fileNames: string[];
+    try {
+        fileNames = fs.readdirSync(directory);
+    } catch {
+        return;
+    }
+    const entries: { path: string, time: number }[] = [];
+    for (const fileName of fileNames) {
+        const entryPath = path.join(directory, fileName);
+        try {
+            entries.push({ path: entryPath, time: fs.statSync(entryPath).mtime.getTime() });
+        } catch {
+            // the entry was removed by another process
+        }
+    }
+    if (entries.length <= maxEntries) {
+        return;
+    }
+    entries.sort((a, b) => b.time - a.time);
+    for (const entry of entries.slice(maxEntries)) {
+        try {
+            fs.unlinkSync(entry.path);
+        } catch {
+            // the entry was removed by another process
+        }
+    }
+}
@@ -0,0 +1,155 @@
+import * as tslint from 'tslint'; // this is a dev dependency only
+
+/**
+ * Maps rule name prefixes or package names to the template of the documentation URL of a rule. The
+ * placeholder `{rule}` is replaced with the rule name. A `null` template disables the URL.
+ */
+export interface RuleDocumentationSources {
+	[prefixOrPackageName: string]: string | null;
+}
+
+export interface RuleDocumentation {
+	url?: string;
+	// the documentation created from the metadata and the configured options of the rule
+	markdown?: string;
+}
+
+export interface RuleDescription {
+	ruleName: string;
+	metadata?: tslint.IRuleMetadata;
+	// the module implementing the rule, undefined when the rule could not be found
+	rulePath?: string;
+	url?: string;
+	configuration?: {
+		// undefined for the default configuration
+		configFilePath?: string;
+		options?: Partial<tslint.IOptions>;
+	};
+}
+
+const defaultSources: RuleDocumentationSources = {
+	'tslint': 'https://palantir.github.io/tslint/rules/{rule}'
+};
+
+/**
+ * Returns the documentation URL of a rule. A source for the package of the rule takes precedence
+ * over the sources for prefixes, the source with the longest matching prefix is used otherwise.
+ */
+export function getRuleDocumentationUrl(sources: RuleDocumentationSources | undefined, ruleName: string, packageName: string | undefined): string | undefined {
+	let template = findTemplate(sources || {}, ruleName, packageName);
+	if (template === undefined) {
+		template = findTemplate(defaultSources, ruleName, packageName);
+	}
+	return template ? template.replace(/\{rule\}/g, ruleName) : undefined;
+}
+
+function findTemplate(sources: RuleDocumentationSources, ruleName: string, packageName: string | undefined): string | null | undefined {
+	if (packageName && Object.prototype.hasOwnProperty.call(sources, packageName)) {
+		return sources[packageName];
+	}
+	let prefix = Object.keys(sources)
+		.filter(each => ruleName.startsWith(each))
+		.sort((a, b) => b.length - a.length)[0];
+	return prefix !== undefined ? sources[prefix] : undefined;
+}
+
+function formatOptionExample(example: any): string {
+	if (typeof example === 'string') {
+		return example;
+	}
+	return JSON.stringify(example && example.options !== undefined ? example.options : example);
+}
+
+function formatConfiguration(ruleName: string, configuration: NonNullable<RuleDescription['configuration']>): string[] {
+	let source = configuration.configFilePath ? `\`${configuration.configFilePath}\`` : 'the default configuration';
+	if (!configuration.options) {
+		return [`The rule is not configured in ${source}.`, ''];
+	}
+	let configured = {
+		severity: configuration.options.ruleSeverity,
+		options: configuration.options.ruleArguments && configuration.options.ruleArguments.length > 0 ? configuration.options.ruleArguments : undefined
+	};
+	return [
+		`The rule is configured in ${source} including the configurations it extends:`, '',
+		'```json', `"${ruleName}": ${JSON.stringify(configured, null, 2)}`, '```', ''
+	];
+}
+
+/**
+ * Create a short markdown description of a rule and its configured options, e.g. for a hover
+ */
+export function formatRuleSummary(rule: RuleDescription): string {
+	let lines: string[] = [`**${rule.ruleName}**`, ''];
+	if (rule.metadata) {
+		lines.push(rule.metadata.description, '');
+	} else if (!rule.rulePath) {
+		lines.push('The rule could not be found.', '');
+	}
+	if (rule.configuration) {
+		lines.push(...formatConfiguration(rule.ruleName, rule.configuration));
+	}
+	if (rule.url) {
+		lines.push(`[Online documentation](${rule.url})`);
+	}
+	return lines.join('\n').trim();
+}
+
+/**
+ * Create the markdown documentation of a rule from the metadata of the rule class and the configured options
+ */
+export function formatRuleDocumentation(rule: RuleDescription): string {
+	let { ruleName, metadata, rulePath, url } = rule;
+	let lines: string[] = [`# ${ruleName}`, ''];
+	if (url) {
+		lines.push(`[Online documentation](${url})`, '');
+	}
+	if (!metadata) {
+		lines.push(rulePath ? `The rule has no metadata, it is implemented in \`${rulePath}\`.` : 'The rule could not be found.', '');
+		if (rule.configuration) {
+			lines.push('## Configuration', '', ...formatConfiguration(ruleName, rule.configuration));
+		}
+		return lines.join('\n').trim();
+	}
+	if (metadata.deprecationMessage !== undefined) {
+		lines.push(`**Deprecated** ${metadata.deprecationMessage}`, '');
+	}
+	lines.push(metadata.description, '');
+	if (metadata.descriptionDetails) {
+		lines.push(metadata.descriptionDetails, '');
+	}
+	let notes: string[] = [];
+	if (metadata.type) {
+		notes.push(`Type: ${metadata.type}`);
+	}
+	if (metadata.hasFix) {
+		notes.push('Has a fix');
+	}
+	if (metadata.requiresTypeInfo) {
+		notes.push('Requires type information');
+	}
+	if (metadata.typescriptOnly) {
+		notes.push('TypeScript only');
+	}
+	if (notes.length > 0) {
+		lines.push(notes.map(each => `- ${each}`).join('\n'), '');
+	}
+	if (rule.configuration) {
+		lines.push('## Configuration', '', ...formatConfiguration(ruleName, rule.configuration));
+	}
+	if (metadata.rationale) {
+		lines.push('## Rationale', '', metadata.rationale, '');
+	}
+	lines.push('## Options', '', metadata.optionsDescription || 'Not configurable.', '');
+	if (metadata.optionExamples && metadata.optionExamples.length > 0) {
+		lines.push('### Examples', '', '```json');
+		(<any[]>metadata.optionExamples).forEach(each => lines.push(`"${ruleName}": ${formatOptionExample(each)}`));
+		lines.push('```', '');
+	}
+	if (metadata.options) {
+		lines.push('### Schema', '', '```json', JSON.stringify(metadata.options, null, 2), '```', '');
+	}
+	if (rulePath) {
+		lines.push(`Implemented in \`${rulePath}\`.`);
+	}
+	return lines.join('\n').trim();
+}
@@ -0,0 +1,82 @@
+import { RuleTiming } from './runner';
+
+// the number of runs of a rule that are kept for the rolling statistics
+const maxRuns = 100;
+
+export interface RuleStatistic {
+	readonly ruleName: string;
+	readonly runs: number;
+	// in milliseconds
+	readonly average: number;
+	readonly maximum: number;
+}
+
+/**
+ * Rolling statistics of the time spent in the rules over the last runs
+ */
+export class RuleStatistics {
+	private durations: Map<string, number[]> = new Map();
+
+	public add(timings: RuleTiming[]): void {
+		for (let timing of timings) {
+			let durations = this.durations.get(timing.ruleName);
+			if (!durations) {
+				durations = [];
+				this.durations.set(timing.ruleName, durations);
+			}
+			durations.push(timing.duration);
+			if (durations.length > maxRuns) {
+				durations.shift();
+			}
+		}
+	}
+
+	// sorted by the average time, the slowest rule first
+	public getStatistics(): RuleStatistic[] {
+		let statistics: RuleStatistic[] = [];
+		this.durations.forEach((durations, ruleName) => {
+			let total = durations.reduce((sum, each) => sum + each, 0);
+			statistics.push({ ruleName, runs: durations.length, average: total / durations.length, maximum: Math.max(...durations) });
+		});
+		return statistics.sort((a, b) => b.average - a.average);
+	}
+
+	public clear(): void {
+		this.durations.clear();
+	}
+}
+
+function formatDuration(duration: number): string {
+	return duration.toFixed(2);
+}
+
+/**
+ * Create a markdown document with the time spent in each rule when linting a file
+ */
+export function formatRuleProfile(filePath: string, timings: RuleTiming[], duration: number, statistics?: RuleStatistic[]): string {
+	let lines: string[] = [`# Rule profile of \`${filePath.replace(/\\/g, '/')}\``, ''];
+	let total = timings.reduce((sum, each) => sum + each.duration, 0);
+	lines.push(`Linting the file took ${formatDuration(duration)} ms, ${formatDuration(total)} ms of it were spent in ${timings.length} rules.`, '');
+	if (timings.length > 0) {
+		lines.push('| Rule | Time (ms) | Share | Failures |', '| --- | ---: | ---: | ---: |');
+		timings
+			.slice()
+			.sort((a, b) => b.duration - a.duration)
+			.forEach(each => {
+				let share = total > 0 ? `${(each.duration / total * 100).toFixed(1)}%` : '';
+				lines.push(`| \`${each.ruleName}\` | ${formatDuration(each.duration)} | ${share} | ${each.failureCount} |`);
+			});
+		lines.push('');
+	}
+	if (statistics) {
+		lines.push('## Rolling statistics', '');
+		if (statistics.length === 0) {
+			lines.push('No statistics were collected yet.');
+		} else {
+			lines.push(`The time spent in the rules over the last ${maxRuns} runs of each rule.`, '');
+			lines.push('| Rule | Runs | Average (ms) | Maximum (ms) |', '| --- | ---: | ---: | ---: |');
+			statistics.forEach(each => lines.push(`| \`${each.ruleName}\` | ${each.runs} | ${formatDuration(each.average)} | ${formatDuration(each.maximum)} |`));
+		}
+	}
+	return lines.join('\n').trim();
+}
@@ -0,0 +1,29 @@
+import * as minimatch from 'minimatch';
+
+export type RuleSeverityOverride = 'error' | 'warning' | 'info' | 'hint' | 'off';
+
+/**
+ * Maps rule names or glob patterns of rule names to the severity that is used for the failures of the rules.
+ */
+export interface RuleSeverityOverrides {
+	[ruleNameOrPattern: string]: RuleSeverityOverride;
+}
+
+/**
+ * Returns the severity override of a rule. An override for the rule name takes precedence over the
+ * patterns, the first pattern that matches the rule name is used otherwise.
+ */
+export function getRuleSeverityOverride(overrides: RuleSeverityOverrides | undefined, ruleName: string): RuleSeverityOverride | undefined {
+	if (!overrides) {
+		return undefined;
+	}
+	if (Object.prototype.hasOwnProperty.call(overrides, ruleName)) {
+		return overrides[ruleName];
+	}
+	for (let pattern of Object.keys(overrides)) {
+		if (minimatch(ruleName, pattern)) {
+			return overrides[pattern];
+		}
+	}
+	return undefined;
+}
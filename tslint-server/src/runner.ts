@@ -5,8 +5,11 @@ import * as path from 'path';
 import * as tslint from 'tslint'; // this is a dev dependency only
 import * as typescript from 'typescript'; // this is a dev dependency only
 import * as util from 'util';
-import * as server from 'vscode-languageserver';
+import * as server from 'vscode-languageserver/node';
+import { ConfigCache, Configuration } from './configCache';
 import { MruCache } from './mruCache';
+import { hash, pruneCachedResults, readCachedResult, stableStringify, writeCachedResult } from './resultCache';
+import { deserializeRunResult, serializeRunResult } from './serialization';
 
 export interface RunConfiguration {
     readonly jsEnable?: boolean;
@@ -19,57 +22,143 @@ export interface RunConfiguration {
     readonly packageManager?: 'npm' | 'yarn';
     readonly traceLevel?: 'verbose' | 'normal';
     readonly workspaceFolderPath?: string;
+    // return the failures that are disabled by comments in the linted file
+    readonly collectSuppressedFailures?: boolean;
+    // measure the time spent in each rule
+    readonly profileRules?: boolean;
+    // the directory of the persistent result cache, the results are not cached when undefined
+    readonly cacheDirectory?: string;
 }
 
-interface Configuration {
-    readonly linterConfiguration: tslint.Configuration.IConfigurationFile | undefined;
-    isDefaultLinterConfig: boolean;
-    readonly path?: string;
+/**
+ * Callbacks invoked around the application of each rule while linting a file
+ */
+export interface RuleHooks {
+    beforeRule?(ruleName: string): void;
+    // the duration is in milliseconds
+    afterRule?(ruleName: string, failures: tslint.RuleFailure[], duration: number): void;
 }
 
-class ConfigCache {
-    public configuration: Configuration | undefined;
+export interface RuleTiming {
+    readonly ruleName: string;
+    // in milliseconds
+    readonly duration: number;
+    // the failures reported by the rule including the failures disabled by comments
+    readonly failureCount: number;
+}
 
-    private filePath: string | undefined;
+export interface RuleLocation {
+    readonly ruleName: string;
+    // the resolved path of the module implementing the rule
+    readonly path: string;
+    // the name of the package containing the module, undefined when there is no package.json
+    readonly packageName?: string;
+}
 
-    constructor() {
-        this.filePath = undefined;
-        this.configuration = undefined;
-    }
+/**
+ * A rule that can be used in a configuration file together with its metadata
+ */
+export interface AvailableRuleLocation extends RuleLocation {
+    readonly metadata?: tslint.IRuleMetadata;
+}
 
-    public set(filePath: string, configuration: Configuration) {
-        this.filePath = filePath;
-        this.configuration = configuration;
-    }
+export interface LintReplacement {
+    readonly start: number;
+    readonly length: number;
+    readonly end: number;
+    readonly text: string;
+}
 
-    public get(forPath: string): Configuration | undefined {
-        return forPath === this.filePath ? this.configuration : undefined;
-    }
+export type LintFix = LintReplacement | LintReplacement[];
 
-    public isDefaultLinterConfig(): boolean {
-        return !!(this.configuration && this.configuration.isDefaultLinterConfig);
-    }
+export interface LintFailurePosition {
+    getPosition(): number;
+    getLineAndCharacter(): { line: number, character: number };
+}
 
-    public flush() {
-        this.filePath = undefined;
-        this.configuration = undefined;
-    }
+/**
+ * The members of a tslint RuleFailure that are used by the server. The failures of a result read from the cache or
+ * linted in a separate process are deserialized and only provide these members.
+ */
+export interface LintFailure {
+    getFileName(): string;
+    getRuleName(): string;
+    getRuleSeverity(): string;
+    getFailure(): string;
+    getStartPosition(): LintFailurePosition;
+    getEndPosition(): LintFailurePosition;
+    getFix(): LintFix | undefined;
+}
+
+export interface LintResult {
+    readonly errorCount: number;
+    readonly warningCount: number;
+    readonly failures: LintFailure[];
+}
+
+export interface ConfiguredRule {
+    // undefined for the default configuration
+    readonly configFilePath?: string;
+    readonly options?: Partial<tslint.IOptions>;
+}
+
+export interface ConfigurationFile {
+    readonly path: string;
+    // the rules and the JavaScript rules configured in the file itself
+    readonly ruleNames: string[];
+    readonly jsRuleNames: string[];
+    // the extended configuration files in the order they are applied, before the file itself
+    readonly extends: ConfigurationFile[];
+}
+
+export interface EffectiveRule {
+    readonly ruleName: string;
+    readonly options: Partial<tslint.IOptions>;
+    // the configuration files configuring the rule in the order they are applied, the last file takes precedence
+    readonly configuredIn: string[];
+}
+
+/**
+ * The configuration used to lint a file and where its rules are configured
+ */
+export interface ConfigurationExplanation {
+    readonly filePath: string;
+    // undefined when the default configuration is used, the extended files are undefined for tslint < 5
+    readonly configFilePath?: string;
+    readonly configFile?: ConfigurationFile;
+    // the rules or the JavaScript rules depending on the file
+    readonly rules: EffectiveRule[];
+    // the files configuring the `no-unused-variable` rule that is removed from the configuration
+    readonly noUnusedVariableRemovedFrom: string[];
+    readonly exclude: string[];
+    // the reason why the file is not linted
+    readonly notLinted?: string;
+    // the configuration could not be loaded
+    readonly error?: string;
 }
 
 export interface RunResult {
-    readonly lintResult: tslint.LintResult;
+    readonly lintResult: LintResult;
     readonly warnings: string[];
     readonly workspaceFolderPath?: string;
     readonly configFilePath?: string;
+    readonly configDependencies?: string[];
+    // the configuration files extended by the tsconfig.json files of the programs, set when linting with a program
+    readonly projectDependencies?: string[];
+    // the failures disabled by comments, only set when `collectSuppressedFailures` is set and supported by the tslint library
+    readonly suppressedFailures?: LintFailure[];
+    // the time spent in each rule, only set when `profileRules` is set and supported by the tslint library
+    readonly ruleTimings?: RuleTiming[];
+    // the packages of the rules reporting failures, key is the rule name. Used to link the documentation of a rule.
+    readonly rulePackages?: { [ruleName: string]: string };
+    // the file could not be linted, the reason is reported in the warnings
+    readonly failed?: boolean;
 }
 
-const emptyLintResult: tslint.LintResult = {
+const emptyLintResult: LintResult = {
     errorCount: 0,
     warningCount: 0,
     failures: [],
-    fixes: [],
-    format: '',
-    output: '',
 };
 
 const emptyResult: RunResult = {
@@ -77,13 +166,29 @@ const emptyResult: RunResult = {
     warnings: [],
 };
 
+// the least recently used results are removed from the cache when it has more entries
+const maxCachedResults = 5000;
+
 export class TsLintRunner {
     private readonly tslintPath2Library = new Map<string, typeof tslint | undefined>();
     private readonly document2LibraryCache = new MruCache<() => typeof tslint | undefined>(100);
+    private readonly document2TsLintPath = new MruCache<string>(100);
+    private readonly tslintPath2TypeScript = new Map<string, typeof typescript | undefined>();
 
     // map stores undefined values to represent failed resolutions
     private readonly globalPackageManagerPath = new Map<string, string>();
     private readonly configCache = new ConfigCache();
+    // key is the rule name and the rules directories it is looked up in
+    private readonly ruleLocations = new Map<string, RuleLocation | undefined>();
+    private readonly ruleMetadata = new Map<string, tslint.IRuleMetadata | undefined>(); // key is the path of the rule
+    private readonly directory2PackageName = new Map<string, string | undefined>();
+    // the hashes of the custom rule files, key is the path of the file
+    private readonly fileHashes = new Map<string, { mtime: number, size: number, hash: string }>();
+    // the hashes of the files of the programs, the language service reuses the source file of an unchanged file
+    // when it updates a program so that each version of a file is hashed once
+    private readonly sourceFileHashes = new WeakMap<typescript.SourceFile, string>();
+    // the cache directories pruned by this runner, a directory is pruned before its first use
+    private readonly prunedCacheDirectories = new Set<string>();
 
     constructor(
         private trace: (data: string) => void,
@@ -93,6 +198,7 @@ export class TsLintRunner {
         filePath: string,
         contents: string | typescript.Program,
         configuration: RunConfiguration,
+        hooks?: RuleHooks,
     ): RunResult {
         this.trace('start validateTextDocument');
 
@@ -113,6 +219,7 @@ export class TsLintRunner {
         if (!library) {
             return {
                 lintResult: emptyLintResult,
+                failed: true,
                 warnings: [
                     getInstallFailureMessage(
                         filePath,
@@ -123,7 +230,177 @@ export class TsLintRunner {
         }
 
         this.trace('About to validate ' + filePath);
-        return this.doRun(filePath, contents, library, configuration, warnings);
+        return this.doRun(filePath, contents, library, configuration, warnings, hooks);
+    }
+
+    /**
+     * Load the typescript module that is used by the tslint library resolved for the given file
+     */
+    public loadTypeScript(filePath: string, configuration: RunConfiguration): typeof typescript | undefined {
+        if (!this.document2TsLintPath.has(filePath)) {
+            this.loadLibrary(filePath, configuration, []);
+        }
+        const tsLintPath = this.document2TsLintPath.get(filePath);
+        if (!tsLintPath) {
+            return undefined;
+        }
+        if (!this.tslintPath2TypeScript.has(tsLintPath)) {
+            let library: typeof typescript | undefined;
+            try {
+                // tslint requires typescript as a peer dependency, resolve it relative to the tslint module
+                library = require(require.resolve('typescript', { paths: [path.dirname(tsLintPath)] }));
+            } catch (e) {
+                this.trace(`Failed to load typescript for ${tsLintPath}`);
+                library = undefined;
+            }
+            this.tslintPath2TypeScript.set(tsLintPath, library);
+        }
+        return this.tslintPath2TypeScript.get(tsLintPath);
+    }
+
+    /**
+     * Find the module implementing a rule used by the configuration of the given file. Like tslint the core rules
+     * are searched first and then the rules directories of the settings and the configuration.
+     */
+    public findRule(filePath: string, ruleName: string, configuration: RunConfiguration): RuleLocation | undefined {
+        const directories = this.getRulesDirectories(filePath, configuration);
+        if (!directories) {
+            return undefined;
+        }
+        return this.getRuleLocation(ruleName, directories);
+    }
+
+    /**
+     * Returns the rules that can be used in the configuration of the given file, these are the core rules and the
+     * rules in the rules directories of the settings and the configuration. Returns undefined when the configuration
+     * cannot be loaded.
+     */
+    public getAvailableRules(filePath: string, configuration: RunConfiguration): AvailableRuleLocation[] | undefined {
+        const linterConfiguration = this.loadConfiguration(filePath, configuration);
+        const directories = this.getRulesDirectories(filePath, configuration);
+        if (!linterConfiguration || !linterConfiguration.linterConfiguration || !directories) {
+            return undefined;
+        }
+        const ruleNames = new Set<string>();
+        for (const directory of directories) {
+            let fileNames: string[];
+            try {
+                fileNames = fs.readdirSync(directory);
+            } catch (e) {
+                this.trace(`Failed to read the rules directory ${directory}`);
+                continue;
+            }
+            fileNames
+                .map(each => /^(.+)Rule\.js$/.exec(each))
+                .forEach(match => match && ruleNames.add(getRuleName(match[1])));
+        }
+        const rules: AvailableRuleLocation[] = [];
+        ruleNames.forEach(each => {
+            const location = this.getRuleLocation(each, directories);
+            if (location) {
+                rules.push({ ...location, metadata: this.getRuleMetadata(location) });
+            }
+        });
+        return rules;
+    }
+
+    /**
+     * Returns the metadata of a rule, the module implementing the rule is loaded to read the metadata
+     */
+    public getRuleMetadata(location: RuleLocation): tslint.IRuleMetadata | undefined {
+        if (!this.ruleMetadata.has(location.path)) {
+            let metadata: tslint.IRuleMetadata | undefined;
+            try {
+                const rule = require(location.path);
+                metadata = rule.Rule && rule.Rule.metadata;
+            } catch (e) {
+                this.trace(`Failed to load the rule ${location.ruleName} from ${location.path}`);
+                metadata = undefined;
+            }
+            this.ruleMetadata.set(location.path, metadata);
+        }
+        return this.ruleMetadata.get(location.path);
+    }
+
+    /**
+     * Returns the options of a rule in the configuration of the given file, the options are undefined when the
+     * configuration does not contain the rule
+     */
+    public getRuleOptions(filePath: string, ruleName: string, configuration: RunConfiguration): ConfiguredRule | undefined {
+        const linterConfiguration = this.loadConfiguration(filePath, configuration);
+        if (!linterConfiguration) {
+            return undefined;
+        }
+        const options = getConfiguredRules(linterConfiguration.linterConfiguration, filePath).get(ruleName);
+        return {
+            configFilePath: linterConfiguration.path,
+            options,
+        };
+    }
+
+    /**
+     * Explain the configuration that is used to lint the given file
+     */
+    public explainConfiguration(filePath: string, configuration: RunConfiguration): ConfigurationExplanation | undefined {
+        const library = this.getLibrary(filePath, configuration);
+        if (!library) {
+            return undefined;
+        }
+        if (configuration.workspaceFolderPath) {
+            process.chdir(configuration.workspaceFolderPath);
+        }
+        let linterConfiguration: Configuration | undefined;
+        let configFile: ConfigurationFile | undefined;
+        try {
+            linterConfiguration = this.getConfiguration(filePath, filePath, library, configuration.configFile || null);
+            if (linterConfiguration && linterConfiguration.path && !linterConfiguration.isDefaultLinterConfig) {
+                configFile = readConfigurationFile(library, linterConfiguration.path);
+            }
+        } catch (err) {
+            return { filePath, rules: [], noUnusedVariableRemovedFrom: [], exclude: [], error: getConfigurationFailureMessage(err) };
+        }
+        const config = linterConfiguration && linterConfiguration.linterConfiguration;
+        const appliedFiles = configFile ? getAppliedFiles(configFile) : [];
+        const getRuleNames = (file: ConfigurationFile) => isJsDocument(filePath) ? file.jsRuleNames : file.ruleNames;
+        const rules: EffectiveRule[] = [];
+        getConfiguredRules(config, filePath).forEach((options, ruleName) => rules.push({
+            ruleName,
+            options,
+            configuredIn: appliedFiles.filter(each => getRuleNames(each).indexOf(ruleName) !== -1).map(each => each.path),
+        }));
+        let notLinted: string | undefined;
+        if (this.fileIsExcluded(configuration, filePath)) {
+            notLinted = 'The file is excluded by the `tslint.exclude` or `tslint.ignoreDefinitionFiles` settings.';
+        } else if (isJsDocument(filePath) && !configuration.jsEnable) {
+            notLinted = 'JavaScript files are not linted, `tslint.jsEnable` is not set.';
+        } else if (configuration.validateWithDefaultConfig === false && linterConfiguration && linterConfiguration.isDefaultLinterConfig) {
+            notLinted = 'There is no configuration file and `tslint.validateWithDefaultConfig` is not set.';
+        } else if (isExcludedFromLinterOptions(config, filePath)) {
+            notLinted = 'The file is excluded by `linterOptions.exclude`.';
+        }
+        return {
+            filePath,
+            configFilePath: linterConfiguration && !linterConfiguration.isDefaultLinterConfig ? linterConfiguration.path : undefined,
+            configFile,
+            rules,
+            noUnusedVariableRemovedFrom: appliedFiles
+                .filter(each => each.ruleNames.indexOf('no-unused-variable') !== -1 || each.jsRuleNames.indexOf('no-unused-variable') !== -1)
+                .map(each => each.path),
+            exclude: config && config.linterOptions && config.linterOptions.exclude || [],
+            notLinted,
+        };
+    }
+
+    /**
+     * Returns the names of the rules that are enabled in the configuration of the given file
+     */
+    public getEnabledRuleNames(filePath: string, configuration: RunConfiguration): string[] {
+        const linterConfiguration = this.loadConfiguration(filePath, configuration);
+        if (!linterConfiguration) {
+            return [];
+        }
+        const rules = getConfiguredRules(linterConfiguration.linterConfiguration, filePath);
+        return Array.from(rules.keys()).filter(each => rules.get(each)!.ruleSeverity !== 'off');
     }
 
     /**
@@ -131,8 +408,8 @@ export class TsLintRunner {
      */
     public filterProblemsForFile(
         filePath: string,
-        failures: tslint.RuleFailure[],
-    ): tslint.RuleFailure[] {
+        failures: LintFailure[],
+    ): LintFailure[] {
         const normalizedPath = path.normalize(filePath);
         // we only show diagnostics targetting this open document, some tslint rule return diagnostics for other documents/files
         const normalizedFiles = new Map<string, string>();
@@ -145,17 +422,26 @@ export class TsLintRunner {
         });
     }
 
-    public onConfigFileChange(_tsLintFilePath: string) {
-        this.configCache.flush();
+    /**
+     * A configuration file has changed. An empty path flushes all cached configurations.
+     */
+    public onConfigFileChange(tsLintFilePath: string) {
+        if (tsLintFilePath) {
+            this.configCache.invalidate(tsLintFilePath);
+        } else {
+            this.ruleLocations.clear();
+            this.ruleMetadata.clear();
+            this.configCache.flush();
+        }
     }
 
-    public getNonOverlappingReplacements(failures: tslint.RuleFailure[]): tslint.Replacement[] {
-        function overlaps(a: tslint.Replacement, b: tslint.Replacement): boolean {
+    public getNonOverlappingReplacements(failures: LintFailure[]): LintReplacement[] {
+        function overlaps(a: LintReplacement, b: LintReplacement): boolean {
             return a.end >= b.start;
         }
 
         let sortedFailures = this.sortFailures(failures);
-        let nonOverlapping: tslint.Replacement[] = [];
+        let nonOverlapping: LintReplacement[] = [];
         for (let i = 0; i < sortedFailures.length; i++) {
             let replacements = this.getReplacements(sortedFailures[i].getFix());
             if (i === 0 || !overlaps(nonOverlapping[nonOverlapping.length - 1], replacements[0])) {
@@ -165,8 +451,8 @@ export class TsLintRunner {
         return nonOverlapping;
     }
 
-    private getReplacements(fix: tslint.Fix | undefined): tslint.Replacement[] {
-        let replacements: tslint.Replacement[] | null = null;
+    private getReplacements(fix: LintFix | undefined): LintReplacement[] {
+        let replacements: LintReplacement[] | null = null;
         // in tslint4 a Fix has a replacement property with the Replacements
         if ((<any>fix).replacements) {
             // tslint4
@@ -182,11 +468,11 @@ export class TsLintRunner {
         return replacements || [];
     }
 
-    private getReplacement(failure: tslint.RuleFailure, at: number): tslint.Replacement {
+    private getReplacement(failure: LintFailure, at: number): LintReplacement {
         return this.getReplacements(failure.getFix())[at];
     }
 
-    private sortFailures(failures: tslint.RuleFailure[]): tslint.RuleFailure[] {
+    private sortFailures(failures: LintFailure[]): LintFailure[] {
         // The failures.replacements are sorted by position, we sort on the position of the first replacement
         return failures.sort((a, b) => {
             return this.getReplacement(a, 0).start - this.getReplacement(b, 0).start;
@@ -230,6 +516,7 @@ export class TsLintRunner {
             }
         }
 
+        this.document2TsLintPath.set(filePath, tsLintPath);
         this.document2LibraryCache.set(filePath, () => {
             let library;
             if (!this.tslintPath2Library.has(tsLintPath)) {
@@ -245,6 +532,176 @@ export class TsLintRunner {
         });
     }
 
+    private getRulesDirectories(filePath: string, configuration: RunConfiguration): string[] | undefined {
+        const linterConfiguration = this.loadConfiguration(filePath, configuration);
+        const tsLintPath = this.document2TsLintPath.get(filePath);
+        if (!linterConfiguration || !tsLintPath) {
+            return undefined;
+        }
+        return getAllRulesDirectories(tsLintPath, linterConfiguration, configuration);
+    }
+
+    /**
+     * Load the configuration of the given file, a configuration that cannot be loaded is treated like an empty configuration
+     */
+    private loadConfiguration(filePath: string, configuration: RunConfiguration): Configuration | undefined {
+        const library = this.getLibrary(filePath, configuration);
+        if (!library) {
+            return undefined;
+        }
+        if (configuration.workspaceFolderPath) {
+            process.chdir(configuration.workspaceFolderPath);
+        }
+        let linterConfiguration: Configuration | undefined;
+        try {
+            linterConfiguration = this.getConfiguration(filePath, filePath, library, configuration.configFile || null);
+        } catch (err) {
+            this.trace(`Failed to get the tslint configuration for ${filePath}`);
+            linterConfiguration = undefined;
+        }
+        return linterConfiguration || { linterConfiguration: undefined, isDefaultLinterConfig: false, dependencies: undefined };
+    }
+
+    /**
+     * Returns the packages of the rules reporting failures. The modules implementing the rules are only resolved,
+     * they are not loaded.
+     */
+    private getRulePackages(filePath: string, failures: LintFailure[], linterConfiguration: Configuration, configuration: RunConfiguration): { [ruleName: string]: string } {
+        const rulePackages: { [ruleName: string]: string } = {};
+        const tsLintPath = this.document2TsLintPath.get(filePath);
+        if (!tsLintPath) {
+            return rulePackages;
+        }
+        const directories = getAllRulesDirectories(tsLintPath, linterConfiguration, configuration);
+        for (const ruleName of new Set(failures.map(each => each.getRuleName()))) {
+            const location = this.getRuleLocation(ruleName, directories);
+            if (location && location.packageName) {
+                rulePackages[ruleName] = location.packageName;
+            }
+        }
+        return rulePackages;
+    }
+
+    private getLibrary(filePath: string, configuration: RunConfiguration): typeof tslint | undefined {
+        if (!this.document2LibraryCache.has(filePath)) {
+            this.loadLibrary(filePath, configuration, []);
+        }
+        return this.document2LibraryCache.has(filePath) ? this.document2LibraryCache.get(filePath)!() : undefined;
+    }
+
+    /**
+     * The key of the cached result of a file. It changes when the linted contents, the effective configuration,
+     * the tslint library or the custom rules change. For a type checked file it also changes with the compiler
+     * options and the version of typescript.
+     */
+    private getResultCacheKey(
+        filePath: string,
+        contents: string | typescript.Program,
+        library: typeof tslint,
+        linterConfiguration: Configuration,
+        configuration: RunConfiguration,
+    ): string {
+        // the result of a type checked file depends on all files of its program
+        const contentHashes = typeof contents === 'string'
+            ? [hash(contents)]
+            : contents.getSourceFiles().map(each => this.getSourceFileHash(each));
+        const ts = typeof contents === 'string' ? undefined : this.loadTypeScript(filePath, configuration);
+        const programText = typeof contents === 'string' ? '' : stableStringify([contents.getCompilerOptions(), ts ? ts.version : '']);
+        const ruleFileHashes: string[] = [];
+        for (const directory of getCustomRulesDirectories(linterConfiguration, configuration)) {
+            let fileNames: string[];
+            try {
+                fileNames = fs.readdirSync(directory).filter(each => each.endsWith('.js')).sort();
+            } catch {
+                continue;
+            }
+            fileNames.forEach(each => ruleFileHashes.push(this.getFileHash(path.join(directory, each))));
+        }
+        // tslint 5 stores the rules in a Map
+        const configurationText = JSON.stringify(linterConfiguration.linterConfiguration, (_key, value) => value instanceof Map ? Array.from(value.entries()) : value);
+        return hash(
+            filePath,
+            ...contentHashes,
+            programText,
+            linterConfiguration.path || '',
+            configurationText || '',
+            this.document2TsLintPath.get(filePath) || '',
+            library.Linter.VERSION || '',
+            ...ruleFileHashes,
+            JSON.stringify([configuration.rulesDirectory, !!configuration.collectSuppressedFailures]),
+        );
+    }
+
+    private getSourceFileHash(sourceFile: typescript.SourceFile): string {
+        let sourceFileHash = this.sourceFileHashes.get(sourceFile);
+        if (sourceFileHash === undefined) {
+            sourceFileHash = hash(sourceFile.fileName, sourceFile.text);
+            this.sourceFileHashes.set(sourceFile, sourceFileHash);
+        }
+        return sourceFileHash;
+    }
+
+    private getFileHash(filePath: string): string {
+        let stats: fs.Stats;
+        try {
+            stats = fs.statSync(filePath);
+        } catch {
+            return '';
+        }
+        const cached = this.fileHashes.get(filePath);
+        if (cached && cached.mtime === stats.mtime.getTime() && cached.size === stats.size) {
+            return cached.hash;
+        }
+        let fileHash = '';
+        try {
+            fileHash = hash(filePath, fs.readFileSync(filePath, 'utf8'));
+        } catch {
+            // the file is hashed as missing
+        }
+        this.fileHashes.set(filePath, { mtime: stats.mtime.getTime(), size: stats.size, hash: fileHash });
+        return fileHash;
+    }
+
+    private getRuleLocation(ruleName: string, directories: string[]): RuleLocation | undefined {
+        const key = [ruleName, ...directories].join(path.delimiter);
+        if (!this.ruleLocations.has(key)) {
+            this.ruleLocations.set(key, this.loadRuleLocation(ruleName, directories));
+        }
+        return this.ruleLocations.get(key);
+    }
+
+    private loadRuleLocation(ruleName: string, directories: string[]): RuleLocation | undefined {
+        const fileName = getRuleFileName(ruleName);
+        for (const directory of directories) {
+            let rulePath: string;
+            try {
+                rulePath = require.resolve(path.join(directory, fileName));
+            } catch (e) {
+                continue;
+            }
+            return { ruleName, path: rulePath, packageName: this.getPackageName(path.dirname(rulePath)) };
+        }
+        return undefined;
+    }
+
+    private getPackageName(directory: string): string | undefined {
+        if (!this.directory2PackageName.has(directory)) {
+            let packageName: string | undefined;
+            const packageJsonPath = path.join(directory, 'package.json');
+            if (fs.existsSync(packageJsonPath)) {
+                try {
+                    packageName = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8')).name;
+                } catch (e) {
+                    packageName = undefined;
+                }
+            } else if (path.dirname(directory) !== directory) {
+                packageName = this.getPackageName(path.dirname(directory));
+            }
+            this.directory2PackageName.set(directory, packageName);
+        }
+        return this.directory2PackageName.get(directory);
+    }
+
     private getGlobalPackageManagerPath(packageManager: string | undefined): string | undefined {
         this.trace(`Begin - Resolve Global Package Manager Path for: ${packageManager}`);
 
@@ -271,6 +728,7 @@ export class TsLintRunner {
         library: typeof import('tslint'),
         configuration: RunConfiguration,
         warnings: string[],
+        hooks: RuleHooks | undefined,
     ): RunResult {
         this.trace('start doValidate ' + filePath);
         const uri = filePath;
@@ -295,6 +753,7 @@ export class TsLintRunner {
             warnings.push(getConfigurationFailureMessage(err));
             return {
                 lintResult: emptyLintResult,
+                failed: true,
                 warnings,
             };
         }
@@ -310,7 +769,7 @@ export class TsLintRunner {
             return emptyResult;
         }
 
-        if (configuration.validateWithDefaultConfig === false && this.configCache.configuration!.isDefaultLinterConfig) {
+        if (configuration.validateWithDefaultConfig === false && linterConfiguration.isDefaultLinterConfig) {
             this.trace(`No linting: linting with default tslint configuration is disabled`);
             return emptyResult;
         }
@@ -320,6 +779,21 @@ export class TsLintRunner {
             return emptyResult;
         }
 
+        // the cache is not used when profiling since the rules have to run
+        const cacheDirectory = !configuration.profileRules ? configuration.cacheDirectory : undefined;
+        const cacheKey = cacheDirectory ? this.getResultCacheKey(filePath, contents, library, linterConfiguration, configuration) : '';
+        if (cacheDirectory) {
+            if (!this.prunedCacheDirectories.has(cacheDirectory)) {
+                this.prunedCacheDirectories.add(cacheDirectory);
+                pruneCachedResults(cacheDirectory, maxCachedResults);
+            }
+            const cachedResult = readCachedResult(cacheDirectory, filePath, cacheKey);
+            if (cachedResult) {
+                this.trace(`No linting: using the cached result of ${filePath}`);
+                return deserializeRunResult(cachedResult);
+            }
+        }
+
         let result: tslint.LintResult;
         const options: tslint.ILinterOptions = {
             formatter: "json",
@@ -339,47 +813,105 @@ export class TsLintRunner {
         };
         console.warn = captureWarnings;
 
+        // the rules return all failures, the failures disabled by comments are removed afterwards
+        const allFailures: tslint.RuleFailure[] = [];
+        const ruleTimings: RuleTiming[] = [];
+        const runHooks: RuleHooks | undefined = !configuration.collectSuppressedFailures && !configuration.profileRules ? hooks : {
+            beforeRule: hooks && hooks.beforeRule,
+            afterRule: (ruleName, failures, duration) => {
+                allFailures.push(...failures);
+                ruleTimings.push({ ruleName, duration, failureCount: failures.length });
+                if (hooks && hooks.afterRule) {
+                    hooks.afterRule(ruleName, failures, duration);
+                }
+            },
+        };
+        let instrumented = false;
         try { // clean up if tslint crashes
             const tslint = new library.Linter(options, typeof contents === 'string' ? undefined : contents);
             this.trace(`Linting: start linting`);
-            tslint.lint(filePath, typeof contents === 'string' ? contents : '', linterConfiguration.linterConfiguration);
+            instrumented = instrumentRules(library, runHooks, () => {
+                tslint.lint(filePath, typeof contents === 'string' ? contents : '', linterConfiguration!.linterConfiguration);
+            });
             result = tslint.getResult();
             this.trace(`Linting: ended linting`);
         } finally {
             console.warn = originalConsoleWarn;
         }
 
-        return {
+        let suppressedFailures: tslint.RuleFailure[] | undefined;
+        if (configuration.collectSuppressedFailures && instrumented) {
+            suppressedFailures = allFailures.filter(each => !result.failures.some(failure => failure.equals(each)));
+        }
+
+        const runResult: RunResult = {
             lintResult: result,
             warnings,
             workspaceFolderPath: configuration.workspaceFolderPath,
             configFilePath: linterConfiguration.path,
+            configDependencies: linterConfiguration.dependencies,
+            suppressedFailures,
+            ruleTimings: configuration.profileRules && instrumented ? ruleTimings : undefined,
+            rulePackages: this.getRulePackages(filePath, result.failures, linterConfiguration, configuration),
         };
+        if (cacheDirectory) {
+            try {
+                writeCachedResult(cacheDirectory, filePath, cacheKey, serializeRunResult(runResult));
+            } catch (err) {
+                this.trace(`Failed to cache the result of ${filePath}: ${err}`);
+            }
+        }
+        return runResult;
     }
 
     private getConfiguration(uri: string, filePath: string, library: typeof tslint, configFileName: string | null): Configuration | undefined {
         this.trace('getConfiguration for' + uri);
 
-        const config = this.configCache.get(filePath);
-        if (config) {
-            return config;
-        }
-
         let isDefaultConfig = false;
-        let linterConfiguration: tslint.Configuration.IConfigurationFile | undefined = undefined;
+        let configFilePath: string | undefined = undefined;
 
         const linter = library.Linter;
         if (linter.findConfigurationPath) {
-            isDefaultConfig = linter.findConfigurationPath(configFileName, filePath) === undefined;
+            configFilePath = linter.findConfigurationPath(configFileName, filePath);
+            isDefaultConfig = configFilePath === undefined;
         }
-        const configurationResult = linter.findConfiguration(configFileName, filePath);
 
-        // between tslint 4.0.1 and tslint 4.0.2 the attribute 'error' has been removed from IConfigurationLoadResult
-        // in 4.0.2 findConfiguration throws an exception as in version ^3.0.0
-        if ((configurationResult as any).error) {
-            throw (configurationResult as any).error;
+        // all files using the default configuration share the cache entry with the empty key,
+        // without findConfigurationPath (tslint < 4) the configuration is cached per file
+        const cacheKey = configFilePath || (isDefaultConfig ? '' : filePath);
+        const config = this.configCache.get(cacheKey);
+        if (config) {
+            return config;
+        }
+
+        let linterConfiguration: tslint.Configuration.IConfigurationFile | undefined = undefined;
+        let dependencies: string[] | undefined = undefined;
+        let loadedPath: string | undefined = undefined;
+
+        const Configuration = library.Configuration;
+        if (configFilePath && Configuration && Configuration.readConfigurationFile && Configuration.parseConfigFile && Configuration.parseConfigFile.length >= 3) {
+            // load the configuration like loadConfigurationFromPath, but record the extended configuration files
+            const extended: string[] = dependencies = [];
+            const readConfig = (extendedPath: string) => {
+                extended.push(path.normalize(extendedPath));
+                return Configuration.readConfigurationFile(extendedPath);
+            };
+            const rawConfiguration = Configuration.readConfigurationFile(configFilePath);
+            linterConfiguration = Configuration.parseConfigFile(rawConfiguration, path.dirname(configFilePath), readConfig);
+            loadedPath = configFilePath;
+        } else {
+            const configurationResult = linter.findConfiguration(configFileName, filePath);
+
+            // between tslint 4.0.1 and tslint 4.0.2 the attribute 'error' has been removed from IConfigurationLoadResult
+            // in 4.0.2 findConfiguration throws an exception as in version ^3.0.0
+            if ((configurationResult as any).error) {
+                throw (configurationResult as any).error;
+            }
+            linterConfiguration = configurationResult.results;
+            loadedPath = configurationResult.path;
+            // the default configuration does not extend other files
+            dependencies = isDefaultConfig ? [] : undefined;
         }
-        linterConfiguration = configurationResult.results;
 
         // In tslint version 5 the 'no-unused-variable' rules breaks the TypeScript language service plugin.
         // See https://github.com/Microsoft/TypeScript/issues/15344
@@ -398,11 +930,12 @@ export class TsLintRunner {
         const configuration: Configuration = {
             isDefaultLinterConfig: isDefaultConfig,
             linterConfiguration,
-            path: configurationResult.path
+            path: loadedPath,
+            dependencies,
         };
 
-        this.configCache.set(filePath, configuration);
-        return this.configCache.configuration;
+        this.configCache.set(cacheKey, configuration);
+        return configuration;
     }
 
     private fileIsExcluded(settings: RunConfiguration, filePath: string): boolean {
@@ -457,6 +990,137 @@ export class TsLintRunner {
     }
 }
 
+// the private method of the linter that runs a rule on a source file
+interface InstrumentedLinter {
+    applyRule?: (rule: tslint.IRule, sourceFile: typescript.SourceFile) => tslint.RuleFailure[];
+}
+
+/**
+ * Run the given function with the hooks installed around the private `applyRule` method of the linter.
+ * Versions of the tslint library without this method are run without hooks. Returns whether the hooks were installed.
+ */
+function instrumentRules(library: typeof tslint, hooks: RuleHooks | undefined, run: () => void): boolean {
+    const prototype: InstrumentedLinter = library.Linter.prototype as object;
+    const applyRule = prototype.applyRule;
+    if (!hooks || typeof applyRule !== 'function') {
+        run();
+        return false;
+    }
+    prototype.applyRule = function (this: tslint.Linter, rule: tslint.IRule, sourceFile: typescript.SourceFile): tslint.RuleFailure[] {
+        const ruleName = rule.getOptions().ruleName;
+        if (hooks.beforeRule) {
+            hooks.beforeRule(ruleName);
+        }
+        const start = process.hrtime();
+        const failures = applyRule.call(this, rule, sourceFile);
+        if (hooks.afterRule) {
+            const [seconds, nanoseconds] = process.hrtime(start);
+            hooks.afterRule(ruleName, failures, seconds * 1000 + nanoseconds / 1e6);
+        }
+        return failures;
+    };
+    try {
+        run();
+    } finally {
+        prototype.applyRule = applyRule;
+    }
+    return true;
+}
+
+/**
+ * Read a configuration file and the files it extends. The extended files are recorded while tslint parses the
+ * configuration file, since tslint does not expose how it resolves them. Returns undefined for tslint < 5.
+ */
+function readConfigurationFile(library: typeof tslint, configFilePath: string): ConfigurationFile | undefined {
+    const Configuration = library.Configuration;
+    if (!Configuration || !Configuration.readConfigurationFile || !Configuration.parseConfigFile || Configuration.parseConfigFile.length < 3) {
+        return undefined;
+    }
+    // the extended files are read depth first in the order of their `extends`
+    const extended: Array<{ path: string, raw: tslint.Configuration.RawConfigFile }> = [];
+    const root = Configuration.readConfigurationFile(configFilePath);
+    Configuration.parseConfigFile(root, path.dirname(configFilePath), (extendedPath: string) => {
+        const raw = Configuration.readConfigurationFile(extendedPath);
+        extended.push({ path: path.normalize(extendedPath), raw });
+        return raw;
+    });
+    const toConfigurationFile = (filePath: string, raw: tslint.Configuration.RawConfigFile): ConfigurationFile => {
+        const extendedFiles = arrayify(raw.extends).map(() => {
+            const next = extended.shift()!;
+            return toConfigurationFile(next.path, next.raw);
+        });
+        const ruleNames = Object.keys(raw.rules || {});
+        return {
+            path: filePath,
+            ruleNames,
+            // `jsRules: true` copies the rules of the file
+            jsRuleNames: typeof raw.jsRules === 'object' ? Object.keys(raw.jsRules) : raw.jsRules === true ? ruleNames : [],
+            extends: extendedFiles,
+        };
+    };
+    return toConfigurationFile(path.normalize(configFilePath), root);
+}
+
+// the configuration files in the order tslint applies them
+function getAppliedFiles(file: ConfigurationFile): ConfigurationFile[] {
+    const files: ConfigurationFile[] = [];
+    file.extends.forEach(each => files.push(...getAppliedFiles(each)));
+    files.push(file);
+    return files;
+}
+
+function arrayify<T>(value: T | T[] | undefined): T[] {
+    return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+function getConfiguredRules(config: tslint.Configuration.IConfigurationFile | undefined, filePath: string): Map<string, Partial<tslint.IOptions>> {
+    const rules = config && (isJsDocument(filePath) ? config.jsRules : config.rules);
+    // in tslint 5 the rules are stored in a Map, in earlier versions they were stored in an Object
+    if (rules instanceof Map) {
+        return rules;
+    }
+    const result = new Map<string, Partial<tslint.IOptions>>();
+    if (rules) {
+        Object.keys(rules).forEach(key => result.set(key, (rules as any)[key]));
+    }
+    return result;
+}
+
+// the rules directories of the settings and of the configuration, relative directories of the settings are
+// resolved against the workspace folder like when linting
+function getCustomRulesDirectories(linterConfiguration: Configuration, configuration: RunConfiguration): string[] {
+    const settingsDirectories = typeof configuration.rulesDirectory === 'string' ? [configuration.rulesDirectory] : configuration.rulesDirectory || [];
+    const configurationDirectories = linterConfiguration.linterConfiguration && linterConfiguration.linterConfiguration.rulesDirectory || [];
+    return [
+        ...settingsDirectories.map(each => path.resolve(configuration.workspaceFolderPath || '', each)),
+        ...configurationDirectories,
+    ];
+}
+
+// the core rules of the tslint library followed by the custom rules directories
+function getAllRulesDirectories(tsLintPath: string, linterConfiguration: Configuration, configuration: RunConfiguration): string[] {
+    return [path.join(path.dirname(tsLintPath), 'rules'), ...getCustomRulesDirectories(linterConfiguration, configuration)];
+}
+
+/**
+ * The name of the module implementing a rule, computed like tslint does, e.g. `noConsoleRule` for `no-console`
+ */
+function getRuleFileName(ruleName: string): string {
+    const nameMatch = ruleName.match(/^([-_]*)(.*?)([-_]*)$/);
+    if (nameMatch === null) {
+        return ruleName + 'Rule';
+    }
+    const camelized = nameMatch[2].replace(/-(.)/g, (_, nextLetter: string) => nextLetter.toUpperCase());
+    return `${nameMatch[1]}${camelized}${nameMatch[3]}Rule`;
+}
+
+/**
+ * The name of the rule implemented by a module, the inverse of `getRuleFileName`, e.g. `no-console` for `noConsole`
+ */
+function getRuleName(baseName: string): string {
+    return baseName.replace(/(?!^)[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+}
+
 function testForExclusionPattern(filePath: string, pattern: string): boolean {
     return minimatch(filePath, pattern, { dot: true });
 }
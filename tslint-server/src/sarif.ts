@@ -0,0 +1,164 @@
+import * as server from 'vscode-languageserver';
+
+// Converts the problems reported in the editor into a SARIF 2.1.0 log, see
+// https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html. Only the subset of the format
+// that is needed to describe rule failures and their fixes is modelled.
+
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+export interface SarifRegion {
+	startLine: number;
+	startColumn: number;
+	endLine: number;
+	endColumn: number;
+}
+
+export interface SarifArtifactLocation {
+	uri: string;
+}
+
+export interface SarifReplacement {
+	deletedRegion: SarifRegion;
+	insertedContent: { text: string };
+}
+
+export interface SarifFix {
+	description: { text: string };
+	artifactChanges: {
+		artifactLocation: SarifArtifactLocation;
+		replacements: SarifReplacement[];
+	}[];
+}
+
+export interface SarifResult {
+	ruleId: string;
+	ruleIndex: number;
+	level: SarifLevel;
+	message: { text: string };
+	locations: {
+		physicalLocation: {
+			artifactLocation: SarifArtifactLocation;
+			region: SarifRegion;
+		};
+	}[];
+	fixes?: SarifFix[];
+}
+
+export interface SarifRule {
+	id: string;
+	// the documentation of the rule linked from the problems, omitted when the rule has no documentation
+	helpUri?: string;
+}
+
+export interface SarifLog {
+	$schema: string;
+	version: '2.1.0';
+	runs: {
+		tool: {
+			driver: {
+				name: string;
+				informationUri: string;
+				rules: SarifRule[];
+			};
+		};
+		columnKind: 'utf16CodeUnits';
+		results: SarifResult[];
+	}[];
+}
+
+/**
+ * A problem as it is shown in the editor together with the fix offered for it.
+ */
+export interface ProblemWithFix {
+	diagnostic: server.Diagnostic;
+	fix?: {
+		label: string;
+		edits: server.TextEdit[];
+	};
+}
+
+function toLevel(severity: server.DiagnosticSeverity | undefined): SarifLevel {
+	switch (severity) {
+		case server.DiagnosticSeverity.Error:
+			return 'error';
+		case server.DiagnosticSeverity.Warning:
+			return 'warning';
+		default:
+			return 'note';
+	}
+}
+
+// SARIF lines and columns are 1-based, the columns are counted in UTF-16 code units like in LSP positions
+function toRegion(range: server.Range): SarifRegion {
+	return {
+		startLine: range.start.line + 1,
+		startColumn: range.start.character + 1,
+		endLine: range.end.line + 1,
+		endColumn: range.end.character + 1
+	};
+}
+
+export function createSarifLog(problemsByUri: Map<string, ProblemWithFix[]>): SarifLog {
+	let rules: SarifRule[] = [];
+	let ruleIndices = new Map<string, number>();
+	let results: SarifResult[] = [];
+
+	let uris = Array.from(problemsByUri.keys()).sort();
+	for (let uri of uris) {
+		for (let problem of problemsByUri.get(uri)!) {
+			let ruleId = String(problem.diagnostic.code);
+			let ruleIndex = ruleIndices.get(ruleId);
+			if (ruleIndex === undefined) {
+				ruleIndex = rules.length;
+				ruleIndices.set(ruleId, ruleIndex);
+				let rule: SarifRule = { id: ruleId };
+				if (problem.diagnostic.codeDescription) {
+					rule.helpUri = problem.diagnostic.codeDescription.href;
+				}
+				rules.push(rule);
+			}
+
+			let result: SarifResult = {
+				ruleId,
+				ruleIndex,
+				level: toLevel(problem.diagnostic.severity),
+				message: { text: problem.diagnostic.message },
+				locations: [{
+					physicalLocation: {
+						artifactLocation: { uri },
+						region: toRegion(problem.diagnostic.range)
+					}
+				}]
+			};
+			if (problem.fix) {
+				result.fixes = [{
+					description: { text: problem.fix.label },
+					artifactChanges: [{
+						artifactLocation: { uri },
+						replacements: problem.fix.edits.map(edit => ({
+							deletedRegion: toRegion(edit.range),
+							insertedContent: { text: edit.newText }
+						}))
+					}]
+				}];
+			}
+			results.push(result);
+		}
+	}
+
+	return {
+		$schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+		version: '2.1.0',
+		runs: [{
+			tool: {
+				driver: {
+					name: 'tslint',
+					informationUri: 'https://palantir.github.io/tslint',
+					rules
+				}
+			},
+			columnKind: 'utf16CodeUnits',
+			results
+		}]
+	};
+}
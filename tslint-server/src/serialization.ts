@@ -0,0 +1,172 @@
+import { LintFailure, LintFailurePosition, LintFix, LintReplacement, RuleTiming, RunResult } from './runner';
+
+// Lint results are passed between processes as JSON. The functions in this module convert the
+// rule failures of the tslint library into plain objects and back.
+
+export interface SerializedPosition {
+	position: number;
+	line: number;
+	character: number;
+}
+
+export interface SerializedReplacement {
+	start: number;
+	length: number;
+	text: string;
+}
+
+export interface SerializedRuleFailure {
+	fileName: string;
+	ruleName: string;
+	ruleSeverity: string;
+	failure: string;
+	startPosition: SerializedPosition;
+	endPosition: SerializedPosition;
+	fix?: SerializedReplacement[];
+}
+
+export interface SerializedRunResult {
+	failures: SerializedRuleFailure[];
+	errorCount: number;
+	warningCount: number;
+	warnings: string[];
+	workspaceFolderPath?: string;
+	configFilePath?: string;
+	configDependencies?: string[];
+	projectDependencies?: string[];
+	suppressedFailures?: SerializedRuleFailure[];
+	ruleTimings?: RuleTiming[];
+	rulePackages?: { [ruleName: string]: string };
+	failed?: boolean;
+}
+
+class DeserializedPosition {
+	constructor(private readonly data: SerializedPosition) { }
+
+	getPosition(): number {
+		return this.data.position;
+	}
+
+	getLineAndCharacter(): { line: number, character: number } {
+		return { line: this.data.line, character: this.data.character };
+	}
+}
+
+class DeserializedReplacement {
+	constructor(public readonly start: number, public readonly length: number, public readonly text: string) { }
+
+	get end(): number {
+		return this.start + this.length;
+	}
+}
+
+class DeserializedRuleFailure implements LintFailure {
+	constructor(private readonly data: SerializedRuleFailure) { }
+
+	getFileName(): string {
+		return this.data.fileName;
+	}
+
+	getRuleName(): string {
+		return this.data.ruleName;
+	}
+
+	getRuleSeverity(): string {
+		return this.data.ruleSeverity;
+	}
+
+	getFailure(): string {
+		return this.data.failure;
+	}
+
+	getStartPosition(): DeserializedPosition {
+		return new DeserializedPosition(this.data.startPosition);
+	}
+
+	getEndPosition(): DeserializedPosition {
+		return new DeserializedPosition(this.data.endPosition);
+	}
+
+	getFix(): DeserializedReplacement[] | undefined {
+		if (!this.data.fix) {
+			return undefined;
+		}
+		return this.data.fix.map(each => new DeserializedReplacement(each.start, each.length, each.text));
+	}
+}
+
+function serializePosition(position: LintFailurePosition): SerializedPosition {
+	let lineAndCharacter = position.getLineAndCharacter();
+	return {
+		position: position.getPosition(),
+		line: lineAndCharacter.line,
+		character: lineAndCharacter.character
+	};
+}
+
+function serializeFix(fix: LintFix | undefined): SerializedReplacement[] | undefined {
+	if (!fix) {
+		return undefined;
+	}
+	let replacements: LintReplacement[];
+	// in tslint4 a Fix has a replacement property with the Replacements
+	if ((<any>fix).replacements) {
+		replacements = (<any>fix).replacements;
+	} else {
+		replacements = Array.isArray(fix) ? fix : [fix];
+	}
+	return replacements.map(each => ({ start: each.start, length: each.length, text: each.text }));
+}
+
+export function serializeRuleFailure(failure: LintFailure): SerializedRuleFailure {
+	return {
+		fileName: failure.getFileName(),
+		ruleName: failure.getRuleName(),
+		// tslint5 supports to assign severities to rules
+		ruleSeverity: failure.getRuleSeverity ? failure.getRuleSeverity() : 'warning',
+		failure: failure.getFailure(),
+		startPosition: serializePosition(failure.getStartPosition()),
+		endPosition: serializePosition(failure.getEndPosition()),
+		fix: failure.getFix ? serializeFix(failure.getFix()) : undefined
+	};
+}
+
+export function deserializeRuleFailure(failure: SerializedRuleFailure): LintFailure {
+	return new DeserializedRuleFailure(failure);
+}
+
+export function serializeRunResult(result: RunResult): SerializedRunResult {
+	return {
+		failures: result.lintResult.failures.map(serializeRuleFailure),
+		errorCount: result.lintResult.errorCount,
+		warningCount: result.lintResult.warningCount,
+		warnings: result.warnings.map(each => String(each)),
+		workspaceFolderPath: result.workspaceFolderPath,
+		configFilePath: result.configFilePath,
+		configDependencies: result.configDependencies,
+		projectDependencies: result.projectDependencies,
+		suppressedFailures: result.suppressedFailures && result.suppressedFailures.map(serializeRuleFailure),
+		ruleTimings: result.ruleTimings,
+		rulePackages: result.rulePackages,
+		failed: result.failed
+	};
+}
+
+export function deserializeRunResult(result: SerializedRunResult): RunResult {
+	return {
+		lintResult: {
+			errorCount: result.errorCount,
+			warningCount: result.warningCount,
+			failures: result.failures.map(deserializeRuleFailure)
+		},
+		warnings: result.warnings,
+		workspaceFolderPath: result.workspaceFolderPath,
+		configFilePath: result.configFilePath,
+		configDependencies: result.configDependencies,
+		projectDependencies: result.projectDependencies,
+		suppressedFailures: result.suppressedFailures && result.suppressedFailures.map(deserializeRuleFailure),
+		ruleTimings: result.ruleTimings,
+		rulePackages: result.rulePackages,
+		failed: result.failed
+	};
+}
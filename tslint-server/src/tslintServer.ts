@@ -3,14 +3,40 @@
  *--------------------------------------------------------*/
 'use strict';
 
-import * as server from 'vscode-languageserver';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as server from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
 import Uri from 'vscode-uri';
 
-import * as tslint from 'tslint'; // this is a dev dependency only
+import * as typescript from 'typescript'; // this is a dev dependency only
 
+import { applyBaseline, BaselineEntry, baselineFileName, formatBaseline, getFingerprint, parseBaseline, replaceBaselineEntries } from './baseline';
+import { findConfigRuleReference, getConfigCompletions, parseConfigDocument, validateConfigDocument } from './configDocument';
+import { formatConfigurationExplanation } from './configurationExplanation';
 import { Delayer } from './delayer';
+import { diffText } from './diff';
+import {
+	createDisableFileEdit, createDisableLineEdit, createDisableNextLineEdit, createDisableSelectionEdits, createRemoveCommentEdit, createRemoveRulesEdit,
+	findUnusedDisableComments, getEol, getLines, getRuleNameReferences, parseDisableComments
+} from './disableComments';
 import { createVscFixForRuleFailure, TSLintAutofixEdit } from './fixer';
-import { TsLintRunner, RunConfiguration} from './runner';
+import {
+	ChangedLines, ChangedLinesBase, computeChangedLines, getBaseContents, getGitDirectories, getRepositoryStateFilePatterns,
+	isRepositoryStateFile, touchesChangedLines
+} from './gitDiff';
+import { IsolatedRunner } from './isolatedRunner';
+import { ProgramCache } from './programCache';
+import { findRelatedLocations, hasRelatedLocations } from './relatedInformation';
+import {
+	formatRuleDocumentation, formatRuleSummary, getRuleDocumentationUrl, RuleDescription, RuleDocumentation, RuleDocumentationSources
+} from './ruleDocumentation';
+import { formatRuleProfile, RuleStatistics } from './ruleProfile';
+import { getRuleSeverityOverride, RuleSeverityOverrides } from './ruleSeverity';
+import { LintFailure, LintFix, LintReplacement, RuleLocation, TsLintRunner, RunConfiguration, RunResult } from './runner';
+import { createSarifLog, ProblemWithFix, SarifLog } from './sarif';
+import { isValidationOutdated, ValidationScheduler } from './validationScheduler';
+import { findWorkspaceFiles, isInIgnoredDirectory, isLintableFile } from './workspaceFiles';
 
 // Settings as defined in VS Code
 interface Settings {
@@ -22,11 +48,23 @@ interface Settings {
 	exclude: string | string[];
 	validateWithDefaultConfig: boolean;
 	nodePath: string | undefined;
-	run: 'onSave' | 'onType';
+	run: 'onSave' | 'onType' | 'workspace';
 	alwaysShowRuleFailuresAsWarnings: boolean;
+	ruleSeverityOverrides: RuleSeverityOverrides | undefined;
+	ruleDocumentation: RuleDocumentationSources | undefined;
+	reportUnusedDisableDirectives: boolean;
+	collectRuleStatistics: boolean;
+	cacheResults: boolean;
+	useBaseline: boolean;
+	reportScope: 'file' | 'changedLines';
+	changedLinesBase: ChangedLinesBase;
+	changedLinesMainBranch: string;
 	alwaysShowStatus: boolean;
 	autoFixOnSave: boolean | string[];
 	packageManager: 'npm' | 'yarn';
+	typeCheck: boolean;
+	runInSeparateProcess: boolean;
+	lintTimeout: number;
 	trace: any;
 	workspaceFolderPath: string | undefined;
 }
@@ -67,6 +105,14 @@ class SettingsCache {
 let settingsCache = new SettingsCache();
 let globalSettings: Settings = <Settings>{};
 let scopedSettingsSupport = false;
+let workspaceFoldersSupport = false;
+// the client pulls the diagnostics, they are pushed to clients that do not support pull diagnostics
+let pullDiagnosticsSupport = false;
+let diagnosticsRefreshSupport = false;
+let watchedFilesRegistrationSupport = false;
+let rootUri: string | null = null;
+// the directory of the persistent result cache provided by the client
+let resultCacheDirectory: string | undefined = undefined;
 
 process.on('unhandledRejection', (reason, p) => {
 	connection.console.info(`Unhandled Rejection at: Promise ${p} reason:, ${reason}`);
@@ -80,7 +126,7 @@ function computeKey(diagnostic: server.Diagnostic): string {
 export interface AutoFix {
 	label: string;
 	documentVersion: number;
-	problem: tslint.RuleFailure;
+	problem: LintFailure;
 	edits: TSLintAutofixEdit[];
 }
 
@@ -92,19 +138,29 @@ enum Status {
 
 interface StatusParams {
 	state: Status;
+	message?: string;
 }
 
 namespace StatusNotification {
-	export const type = new server.NotificationType<StatusParams, void>('tslint/status');
+	export const type = new server.NotificationType<StatusParams>('tslint/status');
 }
 
-let validationDelayer = new Map<string, Delayer<void>>(); // key is the URI of the document
+let validations = new ValidationScheduler(200);
 
-function makeDiagnostic(settings: Settings | undefined, problem: tslint.RuleFailure): server.Diagnostic {
+const overrideSeverities = {
+	error: server.DiagnosticSeverity.Error,
+	warning: server.DiagnosticSeverity.Warning,
+	info: server.DiagnosticSeverity.Information,
+	hint: server.DiagnosticSeverity.Hint
+};
+
+function makeDiagnostic(settings: Settings | undefined, problem: LintFailure, documentationUrl?: string): server.Diagnostic {
 	let severity;
 	let alwaysWarning = settings && settings.alwaysShowRuleFailuresAsWarnings;
-	// tslint5 supports to assign severities to rules
-	if (!alwaysWarning && problem.getRuleSeverity && problem.getRuleSeverity() === 'error') {
+	let override = getRuleSeverityOverride(settings && settings.ruleSeverityOverrides, problem.getRuleName());
+	if (override && overrideSeverities[override]) {
+		severity = overrideSeverities[override];
+	} else if (!alwaysWarning && problem.getRuleSeverity && problem.getRuleSeverity() === 'error') { // tslint5 supports to assign severities to rules
 		severity = server.DiagnosticSeverity.Error;
 	} else {
 		severity = server.DiagnosticSeverity.Warning;
@@ -126,23 +182,98 @@ function makeDiagnostic(settings: Settings | undefined, problem: tslint.RuleFail
 		code: problem.getRuleName(),
 		source: 'tslint'
 	};
+	if (documentationUrl) {
+		diagnostic.codeDescription = { href: documentationUrl };
+	}
+	let tags = getDiagnosticTags(problem.getRuleName());
+	if (tags) {
+		diagnostic.tags = tags;
+	}
 
 	return diagnostic;
 }
 
-let codeFixActions = new Map<string, Map<string, tslint.RuleFailure>>();
-let codeDisableRuleActions = new Map<string, Map<string, tslint.RuleFailure>>();
+/**
+ * Unused and unnecessary code is rendered faded out, deprecated code is rendered struck through
+ */
+function getDiagnosticTags(ruleName: string): server.DiagnosticTag[] | undefined {
+	if (ruleName === 'deprecation') {
+		return [server.DiagnosticTag.Deprecated];
+	}
+	if (/^no-(unused|unnecessary)-/.test(ruleName)) {
+		return [server.DiagnosticTag.Unnecessary];
+	}
+	return undefined;
+}
+
+function addRelatedInformation(document: TextDocument, fsPath: string, settings: Settings, problems: ProblemWithFix[], failures: LintFailure[]) {
+	if (!failures.some(each => hasRelatedLocations(each.getRuleName()))) {
+		return;
+	}
+	let ts = getTsLintRunner().loadTypeScript(fsPath, getRunConfiguration(settings));
+	if (!ts) {
+		return;
+	}
+	let sourceFile = ts.createSourceFile(fsPath, document.getText(), ts.ScriptTarget.Latest, true);
+	failures.forEach((failure, index) => {
+		let locations = findRelatedLocations(ts!, sourceFile, failure);
+		if (locations.length > 0) {
+			problems[index].diagnostic.relatedInformation = locations.map(each => ({
+				location: {
+					uri: document.uri,
+					range: { start: document.positionAt(each.start), end: document.positionAt(each.end) }
+				},
+				message: each.message
+			}));
+		}
+	});
+}
+
+// the problems that are shown in the editor, key is the URI of the document
+let publishedProblems = new Map<string, ProblemWithFix[]>();
+let codeFixActions = new Map<string, Map<string, LintFailure>>();
+let codeDisableRuleActions = new Map<string, Map<string, AutoFix[]>>();
+
+interface CommentFix {
+	label: string;
+	edits: TSLintAutofixEdit[];
+}
+
+interface DocumentCommentFixes {
+	documentVersion: number;
+	// key is the key of the diagnostic
+	fixes: Map<string, CommentFix>;
+	// the edits to remove all unused comments
+	all: TSLintAutofixEdit[];
+}
+
+// the fixes to remove the unused comments that disable rules, key is the URI of the document
+let unusedDisableCommentFixes = new Map<string, DocumentCommentFixes>();
 
-function recordCodeAction(document: server.TextDocument, diagnostic: server.Diagnostic, problem: tslint.RuleFailure): void {
-	let documentDisableRuleFixes: Map<string, AutoFix> = codeDisableRuleActions[document.uri];
+function recordCodeAction(document: TextDocument, lines: string[], diagnostic: server.Diagnostic, problem: LintFailure): AutoFix | undefined {
+	let documentDisableRuleFixes: Map<string, AutoFix[]> = codeDisableRuleActions[document.uri];
 	if (!documentDisableRuleFixes) {
 		documentDisableRuleFixes = Object.create(null);
 		codeDisableRuleActions[document.uri] = documentDisableRuleFixes;
 	}
-	documentDisableRuleFixes[computeKey(diagnostic)] = createDisableRuleFix(problem, document);
+	documentDisableRuleFixes[computeKey(diagnostic)] = createDisableRuleFixes(problem, document, lines);
 
-	let fix: AutoFix | undefined = undefined;
+	let fix = getAutoFix(problem, document);
+	if (!fix) {
+		return undefined;
+	}
+
+	let documentAutoFixes: Map<string, AutoFix> = codeFixActions[document.uri];
+	if (!documentAutoFixes) {
+		documentAutoFixes = Object.create(null);
+		codeFixActions[document.uri] = documentAutoFixes;
+	}
+	documentAutoFixes[computeKey(diagnostic)] = fix;
+	return fix;
+}
 
+function getAutoFix(problem: LintFailure, document: TextDocument): AutoFix | undefined {
+	let fix: AutoFix | undefined = undefined;
 
 	// tslint can return a fix with an empty replacements array, these fixes are ignored
 	if (problem.getFix && problem.getFix() && !replacementsAreEmpty(problem.getFix())) { // tslint fixes are not available in tslint < 3.17
@@ -154,19 +285,10 @@ function recordCodeAction(document: server.TextDocument, diagnostic: server.Diag
 			fix = createAutoFix(problem, document, vscFix);
 		}
 	}
-	if (!fix) {
-		return;
-	}
-
-	let documentAutoFixes: Map<string, AutoFix> = codeFixActions[document.uri];
-	if (!documentAutoFixes) {
-		documentAutoFixes = Object.create(null);
-		codeFixActions[document.uri] = documentAutoFixes;
-	}
-	documentAutoFixes[computeKey(diagnostic)] = fix;
+	return fix;
 }
 
-function convertReplacementToAutoFix(document: server.TextDocument, repl: tslint.Replacement): TSLintAutofixEdit {
+function convertReplacementToAutoFix(document: TextDocument, repl: LintReplacement): TSLintAutofixEdit {
 	let start: server.Position = document.positionAt(repl.start);
 	let end: server.Position = document.positionAt(repl.end);
 	return {
@@ -175,12 +297,12 @@ function convertReplacementToAutoFix(document: server.TextDocument, repl: tslint
 	};
 }
 
-function getErrorMessage(err: any, document: server.TextDocument): string {
+function getErrorMessage(err: any, document: TextDocument): string {
 	let errorMessage = `unknown error`;
 	if (typeof err.message === 'string' || err.message instanceof String) {
 		errorMessage = <string>err.message;
 	}
-	let fsPath = server.Files.uriToFilePath(document.uri);
+	let fsPath = server.Files.uriToFilePath(document.uri) || document.uri;
 	let message = `vscode-tslint: '${errorMessage}' while validating: ${fsPath} stacktrace: ${err.stack}`;
 	return message;
 }
@@ -194,44 +316,198 @@ function getConfigurationFailureMessage(err: any): string {
 
 }
 
-function validateAllTextDocuments(conn: server.IConnection, documents: server.TextDocument[]): void {
+function validateAllTextDocuments(conn: server.Connection, documents: TextDocument[]): void {
 	trace('validateAllTextDocuments');
-	let tracker = new server.ErrorMessageTracker();
 	documents.forEach(document => {
-		try {
-			validateTextDocument(conn, document);
-		} catch (err) {
-			tracker.add(getErrorMessage(err, document));
-		}
+		validateTextDocument(conn, document).catch(err => {
+			conn.console.error(getErrorMessage(err, document));
+		});
 	});
 }
 
 let tslintRunner: TsLintRunner | undefined = undefined;
+let isolatedRunner: IsolatedRunner | undefined = undefined;
+const defaultLintTimeout = 10000;
+
+function getIsolatedRunner(): IsolatedRunner {
+	if (!isolatedRunner) {
+		isolatedRunner = new IsolatedRunner(path.join(__dirname, 'lintWorker.js'), () => {
+			return documents.all()
+				.filter(each => Uri.parse(each.uri).scheme === 'file')
+				.map(each => ({ filePath: server.Files.uriToFilePath(each.uri)!, version: each.version, text: each.getText() }));
+		}, trace);
+	}
+	return isolatedRunner;
+}
+
+function getTsLintRunner(): TsLintRunner {
+	if (!tslintRunner) {
+		tslintRunner = new TsLintRunner(trace);
+	}
+	return tslintRunner;
+}
+
+// the time spent in the rules over all runs, only collected when tslint.collectRuleStatistics is set
+let ruleStatistics = new RuleStatistics();
+
+/**
+ * Lints the contents of a file. The contents are linted with the program of the file when typeCheck
+ * is true, the program contains the contents of the open documents. A cancelled run is aborted when
+ * linting in a separate process, otherwise only a run that has not started yet is skipped. The result is cached
+ * when cacheResult is true, i.e. when the contents are saved on disk.
+ */
+async function runLinter(fsPath: string, contents: string, settings: Settings, typeCheck: boolean, profileRules = false, token?: server.CancellationToken, cacheResult = false): Promise<RunResult> {
+	let runConfiguration: RunConfiguration = {
+		...getRunConfiguration(settings),
+		profileRules: profileRules || settings.collectRuleStatistics,
+		cacheDirectory: cacheResult && settings.cacheResults ? resultCacheDirectory : undefined
+	};
+	let result: RunResult;
+	programsRequested = programsRequested || typeCheck;
+	if (settings.runInSeparateProcess) {
+		result = await getIsolatedRunner().runTsLint(fsPath, contents, typeCheck, runConfiguration, settings.lintTimeout || defaultLintTimeout, token);
+	} else {
+		if (token && token.isCancellationRequested) {
+			throw new Error(`vscode-tslint: linting ${fsPath} was cancelled.`);
+		}
+		let program = typeCheck ? getProgram(fsPath, runConfiguration) : undefined;
+		result = getTsLintRunner().runTsLint(fsPath, program || contents, runConfiguration);
+		if (program) {
+			result = { ...result, projectDependencies: programCache.getExtendedConfigFiles() };
+		}
+	}
+	if (settings.collectRuleStatistics && result.ruleTimings) {
+		ruleStatistics.add(result.ruleTimings);
+	}
+	return result;
+}
+
+function getRunConfiguration(settings: Settings): RunConfiguration {
+	let traceLevel: 'normal' | 'verbose' = 'normal';
+	if (settings.trace && settings.trace.server && settings.trace.server === 'verbose') {
+		traceLevel = 'verbose';
+	}
+
+	return {
+		workspaceFolderPath: settings.workspaceFolderPath,
+		configFile: settings.configFile,
+		jsEnable: settings.jsEnable,
+		exclude: settings.exclude,
+		ignoreDefinitionFiles: settings.ignoreDefinitionFiles,
+		nodePath: settings.nodePath,
+		packageManager: settings.packageManager,
+		rulesDirectory: settings.rulesDirectory,
+		validateWithDefaultConfig: settings.validateWithDefaultConfig,
+		traceLevel: traceLevel,
+		collectSuppressedFailures: settings.reportUnusedDisableDirectives
+	};
+}
+
+/**
+ * Returns the run configuration for a request on a file, the rules of a configuration file are resolved using the
+ * configuration file itself
+ */
+function getFileRunConfiguration(fsPath: string, settings: Settings): RunConfiguration {
+	let runConfiguration = getRunConfiguration(settings);
+	return isConfigFile(fsPath) ? { ...runConfiguration, configFile: fsPath } : runConfiguration;
+}
+
+// the extensions of the synthetic paths of the documents that are not saved on disk, key is the language of the document
+const languageExtensions: { [languageId: string]: string } = {
+	typescript: '.ts',
+	typescriptreact: '.tsx',
+	javascript: '.js',
+	javascriptreact: '.jsx'
+};
+
+/**
+ * Returns the path a document is linted under, undefined when the document is not linted. A document that is not
+ * saved on disk, e.g. an untitled document, is linted under a synthetic path with the extension of its language.
+ * The synthetic path is in the directory of the URI when it exists on disk, otherwise in the workspace folder so
+ * that the configuration of the workspace folder applies. It never names an existing file, e.g. the file of a
+ * revision shown in a diff view, so that the document is not mistaken for the file.
+ */
+function getDocumentPath(document: TextDocument, settings: Settings | undefined): string | undefined {
+	let uri = Uri.parse(document.uri);
+	if (uri.scheme === 'file') {
+		return server.Files.uriToFilePath(document.uri);
+	}
+	let extension = languageExtensions[document.languageId];
+	if (!extension) {
+		return undefined;
+	}
+	let name = path.basename(uri.path) || 'untitled';
+	if (path.extname(name).toLowerCase() === extension) {
+		name = name.slice(0, -extension.length);
+	}
+	let directory = path.dirname(uri.fsPath);
+	if (!path.isAbsolute(directory) || !fs.existsSync(directory)) {
+		directory = settings && settings.workspaceFolderPath || process.cwd();
+	}
+	let fsPath = path.join(directory, name + extension);
+	for (let index = 1; fs.existsSync(fsPath); index++) {
+		fsPath = path.join(directory, `${name}.${uri.scheme}${index > 1 ? index : ''}${extension}`);
+	}
+	return fsPath;
+}
+
+/**
+ * Returns whether a document is linted with type information, the programs only contain the files on disk
+ */
+function isTypeChecked(document: TextDocument, settings: Settings): boolean {
+	return settings.typeCheck && Uri.parse(document.uri).scheme === 'file';
+}
+
+// the versions of the open documents when they were opened or saved last, key is the URI of the document
+let savedVersions = new Map<string, number>();
+
+/**
+ * A document is saved when its contents are the contents on disk, documents that are not open are read from disk
+ */
+function isSaved(document: TextDocument): boolean {
+	return !documents.get(document.uri) || savedVersions.get(document.uri) === document.version;
+}
 
-async function validateTextDocument(connection: server.IConnection, document: server.TextDocument) {
+function validateTextDocument(connection: server.Connection, document: TextDocument, workspaceSettings?: Settings): Promise<void> {
+	return validations.run(document.uri, token => lintTextDocument(connection, document, token, workspaceSettings));
+}
+
+async function lintTextDocument(connection: server.Connection, document: TextDocument, token: server.CancellationToken, workspaceSettings?: Settings) {
 	trace('start validateTextDocument');
 
 	let uri = document.uri;
+	// the results are discarded when the document changes or a newer validation starts while linting, a document
+	// read from disk is outdated when it is opened in the meantime
+	let version = document.version;
+	let isOutdated = () => {
+		if (isValidationOutdated(token, version, documents.get(uri) || document)) {
+			trace(`validateTextDocument: the results are outdated for ${uri}`);
+			return true;
+		}
+		return false;
+	};
 
-	let settings = await settingsCache.get(uri);
+	// documents linted as part of the workspace are validated with the settings of their workspace folder
+	let settings = workspaceSettings || await settingsCache.get(uri);
 	trace('validateTextDocument: settings fetched');
 	if (settings && !settings.enable) {
 		// send diagnostics event to flush existing warnings
-		connection.sendDiagnostics({ uri: uri, diagnostics: [] });
+		publishDiagnostics(uri, []);
 		return;
 	}
 
 	let diagnostics: server.Diagnostic[] = [];
 	delete codeFixActions[uri];
 	delete codeDisableRuleActions[uri];
+	unusedDisableCommentFixes.delete(uri);
 
-	// tslint can only validate files on disk
-	if (Uri.parse(uri).scheme !== 'file') {
-		trace(`No linting: file is not saved on disk`);
+	let fsPath = getDocumentPath(document, settings);
+	if (!fsPath) {
+		trace(`No linting: the language of the document is not linted`);
 		return diagnostics;
 	}
-
-	let fsPath = server.Files.uriToFilePath(uri);
+	// the baseline and git only know the files on disk
+	let isFile = Uri.parse(uri).scheme === 'file';
 
 	if (!settings) {
 		trace('No linting: settings could not be loaded');
@@ -242,29 +518,31 @@ async function validateTextDocument(connection: server.IConnection, document: se
 		return diagnostics;
 	}
 
-	if (!tslintRunner) {
-		tslintRunner = new TsLintRunner(trace);
+	if (isConfigFile(fsPath!)) {
+		publishDiagnostics(uri, [], validateConfigFile(document, fsPath!, settings));
+		return diagnostics;
 	}
 
-	let traceLevel: 'normal' | 'verbose' = 'normal';
-	if (settings.trace && settings.trace.server && settings.trace.server === 'verbose') {
-		traceLevel = 'verbose';
+	let result: RunResult;
+	try {
+		result = await runLinter(fsPath!, document.getText(), settings, isTypeChecked(document, settings), false, token, isFile && isSaved(document));
+	} catch (err) {
+		if (isOutdated()) {
+			return diagnostics;
+		}
+		if (!settings.runInSeparateProcess) {
+			throw err;
+		}
+		// the client logs the message of the status
+		connection.sendNotification(StatusNotification.type, { state: Status.error, message: err.message });
+		return diagnostics;
+	}
+	if (isOutdated()) {
+		return diagnostics;
 	}
 
-	let runConfiguration: RunConfiguration = {
-		workspaceFolderPath: settings.workspaceFolderPath,
-		configFile: settings.configFile,
-		jsEnable: settings.jsEnable,
-		exclude: settings.exclude,
-		ignoreDefinitionFiles: settings.ignoreDefinitionFiles,
-		nodePath: settings.nodePath,
-		packageManager: settings.packageManager,
-		rulesDirectory: settings.rulesDirectory,
-		validateWithDefaultConfig: settings.validateWithDefaultConfig,
-		traceLevel: traceLevel
-	};
-
-	let result = tslintRunner.runTsLint(fsPath!, document.getText(), runConfiguration);
+	watchConfigDependencies(result.configDependencies);
+	watchProjectDependencies(result.projectDependencies);
 
 	if (result.warnings.length > 0) {
 		connection.sendNotification(StatusNotification.type, { state: Status.warn });
@@ -272,94 +550,753 @@ async function validateTextDocument(connection: server.IConnection, document: se
 			connection.console.warn(each);
 		});
 	}
-
-	let filterdFailures = tslintRunner.filterProblemsForFile(fsPath!, result.lintResult.failures);
-
-	filterdFailures.forEach(each => {
-		let diagnostic = makeDiagnostic(settings, each);
-		diagnostics.push(diagnostic);
-		recordCodeAction(document, diagnostic, each);
-	});
-	connection.sendDiagnostics({ uri, diagnostics });
+
+	let filterdFailures = getShownFailures(fsPath!, result.lintResult.failures, settings);
+	let staleBaselineEntries: BaselineEntry[] = [];
+	if (settings.useBaseline && isFile) {
+		let baselined = applyWorkspaceBaseline(document, fsPath!, settings, filterdFailures);
+		filterdFailures = baselined.shown;
+		staleBaselineEntries = baselined.stale;
+	}
+	if (settings.reportScope === 'changedLines' && isFile) {
+		let changedLines = await getDocumentChangedLines(document, fsPath!, settings);
+		if (isOutdated()) {
+			return diagnostics;
+		}
+		filterdFailures = filterdFailures.filter(each => touchesChangedLines(
+			changedLines,
+			each.getStartPosition().getLineAndCharacter().line,
+			each.getEndPosition().getLineAndCharacter().line
+		));
+	}
+
+	let problems: ProblemWithFix[] = [];
+	let lines = getLines(document.getText());
+	let documentationUrls = new Map<string, string | undefined>();
+	filterdFailures.forEach(each => {
+		let ruleName = each.getRuleName();
+		if (!documentationUrls.has(ruleName)) {
+			documentationUrls.set(ruleName, getRuleDocumentationUrl(settings!.ruleDocumentation, ruleName, result.rulePackages && result.rulePackages[ruleName]));
+		}
+		let diagnostic = makeDiagnostic(settings, each, documentationUrls.get(ruleName));
+		let fix = recordCodeAction(document, lines, diagnostic, each);
+		problems.push({ diagnostic, fix: fix ? { label: fix.label, edits: createTextEdit(fix) } : undefined });
+	});
+	addRelatedInformation(document, fsPath!, settings, problems, filterdFailures);
+	// the comments are only validated when the file is linted using a configuration file, e.g. not when it is excluded
+	let commentDiagnostics = result.configFilePath ? validateDisableComments(fsPath!, lines, settings) : [];
+	if (settings.reportUnusedDisableDirectives && result.suppressedFailures) {
+		let suppressedFailures = getTsLintRunner().filterProblemsForFile(fsPath!, result.suppressedFailures);
+		commentDiagnostics = commentDiagnostics.concat(reportUnusedDisableComments(document, lines, suppressedFailures));
+	}
+	if (staleBaselineEntries.length > 0) {
+		commentDiagnostics.push(makeStaleBaselineDiagnostic(staleBaselineEntries));
+	}
+	publishDiagnostics(uri, problems, commentDiagnostics);
+}
+
+interface BaseContents {
+	base: ChangedLinesBase;
+	mainBranch: string;
+	// undefined when the file does not exist in the base or git failed
+	contents: Promise<string | undefined>;
+}
+
+// the contents of the files in the revisions they are compared with, key is the path of the file. The contents are
+// read again when the HEAD, the refs or the index of a repository change.
+let baseContentsCache = new Map<string, BaseContents>();
+
+function loadBaseContents(fsPath: string, base: ChangedLinesBase, mainBranch: string): Promise<string | undefined> {
+	return getBaseContents(fsPath, base, mainBranch).catch(err => {
+		connection.console.warn(`The changed lines of ${fsPath} could not be determined, all problems are reported: ${err.message}`);
+		return undefined;
+	});
+}
+
+/**
+ * Returns the lines of a document that are changed compared with the base, the contents of the document are compared
+ * in memory so that the changed lines match the linted contents when the document is not saved
+ */
+async function getDocumentChangedLines(document: TextDocument, fsPath: string, settings: Settings): Promise<ChangedLines> {
+	let contents = document.getText();
+	let base = settings.changedLinesBase || 'HEAD';
+	let mainBranch = settings.changedLinesMainBranch || 'main';
+	let cached = baseContentsCache.get(fsPath);
+	if (!cached || cached.base !== base || cached.mainBranch !== mainBranch) {
+		cached = { base, mainBranch, contents: loadBaseContents(fsPath, base, mainBranch) };
+		baseContentsCache.set(fsPath, cached);
+		watchRepository(fsPath);
+	}
+	return computeChangedLines(await cached.contents, contents);
+}
+
+// the git directories of the repositories that contain the files with changed lines
+let watchedGitDirectories = new Set<string>();
+
+// The repository may contain the workspace folder, watch the HEAD, the refs and the index in its git directories
+function watchRepository(fsPath: string) {
+	if (!watchedFilesRegistrationSupport) {
+		return;
+	}
+	getGitDirectories(fsPath).then(directories => {
+		let added = directories.filter(each => !watchedGitDirectories.has(each));
+		if (added.length === 0) {
+			return;
+		}
+		added.forEach(each => watchedGitDirectories.add(each));
+		watchFiles(([] as string[]).concat(...added.map(getRepositoryStateFilePatterns)));
+	}, () => {
+		// the failure is reported when the base contents are loaded
+	});
+}
+
+function isWatchedRepositoryStateFile(filePath: string): boolean {
+	return Array.from(watchedGitDirectories).some(each => isRepositoryStateFile(filePath, each));
+}
+
+/**
+ * Reads the contents of the files in their bases again, returns whether the contents of a file changed, e.g. after
+ * a commit or when another branch is checked out
+ */
+async function reloadBaseContents(): Promise<boolean> {
+	let changed = await Promise.all(Array.from(baseContentsCache.entries()).map(async ([fsPath, cached]) => {
+		let reloaded = { ...cached, contents: loadBaseContents(fsPath, cached.base, cached.mainBranch) };
+		baseContentsCache.set(fsPath, reloaded);
+		return await cached.contents !== await reloaded.contents;
+	}));
+	return changed.some(each => each);
+}
+
+// the baselines of the workspace folders, key is the path of the baseline file
+let baselines = new Map<string, { mtime: number, entries: Map<string, BaselineEntry[]> }>();
+
+/**
+ * Returns the entries of the baseline of a workspace folder for a file, undefined when there is no baseline
+ */
+function getBaselineEntries(workspaceFolderPath: string, fsPath: string): BaselineEntry[] | undefined {
+	let baselinePath = path.join(workspaceFolderPath, baselineFileName);
+	let mtime: number;
+	try {
+		mtime = fs.statSync(baselinePath).mtime.getTime();
+	} catch {
+		baselines.delete(baselinePath);
+		return undefined;
+	}
+	let cached = baselines.get(baselinePath);
+	if (!cached || cached.mtime !== mtime) {
+		let baseline = parseBaseline(fs.readFileSync(baselinePath, 'utf8'));
+		if (!baseline) {
+			connection.console.warn(`The baseline ${baselinePath} is not valid, it is ignored.`);
+		}
+		let entries = new Map<string, BaselineEntry[]>();
+		(baseline ? baseline.entries : []).forEach(each => entries.set(each.file, (entries.get(each.file) || []).concat(each)));
+		cached = { mtime, entries };
+		baselines.set(baselinePath, cached);
+	}
+	return cached.entries.get(getBaselineFile(workspaceFolderPath, fsPath)) || [];
+}
+
+// the path of a file in the baseline
+function getBaselineFile(workspaceFolderPath: string, fsPath: string): string {
+	return path.relative(workspaceFolderPath, fsPath).replace(/\\/g, '/');
+}
+
+function getFailureFingerprint(text: string, failure: LintFailure): string {
+	return getFingerprint(text, {
+		rule: failure.getRuleName(),
+		message: failure.getFailure(),
+		start: failure.getStartPosition().getPosition(),
+		end: failure.getEndPosition().getPosition()
+	});
+}
+
+/**
+ * Removes the failures recorded in the baseline of the workspace folder, returns the remaining failures and the
+ * entries of the baseline that do not match a failure
+ */
+function applyWorkspaceBaseline(document: TextDocument, fsPath: string, settings: Settings, failures: LintFailure[]): { shown: LintFailure[], stale: BaselineEntry[] } {
+	let entries = settings.workspaceFolderPath ? getBaselineEntries(settings.workspaceFolderPath, fsPath) : undefined;
+	if (!entries || entries.length === 0) {
+		return { shown: failures, stale: [] };
+	}
+	let text = document.getText();
+	return applyBaseline(entries, failures, each => ({ rule: each.getRuleName(), fingerprint: getFailureFingerprint(text, each) }));
+}
+
+function makeStaleBaselineDiagnostic(stale: BaselineEntry[]): server.Diagnostic {
+	let rules = Array.from(new Set(stale.map(each => each.rule))).sort().join(', ');
+	let entries = stale.length === 1 ? '1 entry of the baseline does' : `${stale.length} entries of the baseline do`;
+	return {
+		severity: server.DiagnosticSeverity.Information,
+		message: `${entries} not match a failure of the file any more (${rules}). Create the baseline again to remove the stale entries.`,
+		range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+		source: 'tslint'
+	};
+}
+
+/**
+ * Returns the documentation URL of a rule and the documentation created from the metadata of the rule and the
+ * options configured for the file
+ */
+function getRuleDocumentation(fsPath: string | undefined, ruleName: string, settings: Settings): RuleDocumentation {
+	let description = getRuleDescription(fsPath, ruleName, settings);
+	return { url: description.url, markdown: formatRuleDocumentation(description) };
+}
+
+function getRuleDescription(fsPath: string | undefined, ruleName: string, settings: Settings): RuleDescription {
+	let runConfiguration = fsPath ? getFileRunConfiguration(fsPath, settings) : undefined;
+	let location = fsPath ? getTsLintRunner().findRule(fsPath, ruleName, runConfiguration!) : undefined;
+	let configuration = fsPath ? getTsLintRunner().getRuleOptions(fsPath, ruleName, runConfiguration!) : undefined;
+	return {
+		ruleName,
+		metadata: location && getTsLintRunner().getRuleMetadata(location),
+		rulePath: location && location.path,
+		url: getRuleDocumentationUrl(settings.ruleDocumentation, ruleName, location && location.packageName),
+		configuration: configuration && { configFilePath: configuration.configFilePath, options: configuration.options }
+	};
+}
+
+function parseConfigFile(document: TextDocument, fsPath: string) {
+	return parseConfigDocument(document.getText(), path.extname(fsPath) !== '.json');
+}
+
+/**
+ * Returns the diagnostics for the unknown rules and the invalid rule options of a configuration file
+ */
+function validateConfigFile(document: TextDocument, fsPath: string, settings: Settings): server.Diagnostic[] {
+	let rules = getTsLintRunner().getAvailableRules(fsPath, getFileRunConfiguration(fsPath, settings));
+	return validateConfigDocument(parseConfigFile(document, fsPath), rules).map(each => ({
+		severity: server.DiagnosticSeverity.Warning,
+		message: each.message,
+		range: { start: document.positionAt(each.start), end: document.positionAt(each.end) },
+		source: 'tslint'
+	}));
+}
+
+/**
+ * Returns the diagnostics for the unknown rule names in the comments that enable or disable rules
+ */
+function validateDisableComments(fsPath: string, lines: string[], settings: Settings): server.Diagnostic[] {
+	let runConfiguration = getRunConfiguration(settings);
+	let diagnostics: server.Diagnostic[] = [];
+	lines.forEach((line, index) => {
+		if (line.indexOf('tslint:') === -1) {
+			return;
+		}
+		for (let reference of getRuleNameReferences(line)) {
+			if (!getTsLintRunner().findRule(fsPath, reference.name, runConfiguration)) {
+				diagnostics.push({
+					severity: server.DiagnosticSeverity.Warning,
+					message: `Unknown rule "${reference.name}", the comment does not ${reference.comment.kind} it.`,
+					range: {
+						start: { line: index, character: reference.start },
+						end: { line: index, character: reference.end }
+					},
+					source: 'tslint'
+				});
+			}
+		}
+	});
+	return diagnostics;
+}
+
+/**
+ * Returns the diagnostics for the comments that do not disable any failure and records the fixes to remove them
+ */
+function reportUnusedDisableComments(document: TextDocument, lines: string[], suppressedFailures: LintFailure[]): server.Diagnostic[] {
+	let unusedComments = findUnusedDisableComments(document.getText(), suppressedFailures.map(each => ({
+		ruleName: each.getRuleName(),
+		start: each.getStartPosition().getPosition(),
+		end: each.getEndPosition().getPosition()
+	})));
+	if (unusedComments.length === 0) {
+		return [];
+	}
+	let documentFixes: DocumentCommentFixes = { documentVersion: document.version, fixes: new Map(), all: [] };
+	let diagnostics: server.Diagnostic[] = [];
+	let addDiagnostic = (line: number, start: number, end: number, message: string, fix: CommentFix) => {
+		let diagnostic: server.Diagnostic = {
+			severity: server.DiagnosticSeverity.Information,
+			message,
+			range: { start: { line, character: start }, end: { line, character: end } },
+			source: 'tslint',
+			tags: [server.DiagnosticTag.Unnecessary]
+		};
+		diagnostics.push(diagnostic);
+		documentFixes.fixes.set(computeKey(diagnostic), fix);
+	};
+	for (let unused of unusedComments) {
+		let { line, comment } = unused;
+		let directive = `tslint:${comment.kind}${comment.modifier ? '-' + comment.modifier : ''}`;
+		if (unused.unused) {
+			let edit = createRemoveCommentEdit(lines, line, comment);
+			documentFixes.all.push(edit);
+			addDiagnostic(line, comment.start, comment.end, `Unused "${directive}" comment, it does not disable any failure.`, {
+				label: `Remove unused "${directive}" comment`,
+				edits: [edit]
+			});
+			continue;
+		}
+		documentFixes.all.push(createRemoveRulesEdit(lines, line, comment, unused.unusedRules));
+		for (let reference of getRuleNameReferences(lines[line])) {
+			if (reference.comment.start === comment.start && unused.unusedRules.indexOf(reference.name) !== -1) {
+				addDiagnostic(line, reference.start, reference.end, `The rule "${reference.name}" in the "${directive}" comment does not disable any failure.`, {
+					label: `Remove "${reference.name}" from the "${directive}" comment`,
+					edits: [createRemoveRulesEdit(lines, line, comment, [reference.name])]
+				});
+			}
+		}
+	}
+	unusedDisableCommentFixes.set(document.uri, documentFixes);
+	return diagnostics;
+}
+
+/**
+ * Returns the failures that are shown in the editor, rules can be turned off with tslint.ruleSeverityOverrides
+ */
+function getShownFailures(fsPath: string, failures: LintFailure[], settings: Settings): LintFailure[] {
+	return getTsLintRunner().filterProblemsForFile(fsPath, failures)
+		.filter(each => getRuleSeverityOverride(settings.ruleSeverityOverrides, each.getRuleName()) !== 'off');
+}
+
+/**
+ * Publish the problems reported by the rules and other diagnostics, e.g. for the comments that disable rules.
+ * Only the problems reported by the rules are exported to a SARIF log.
+ */
+function publishDiagnostics(uri: string, problems: ProblemWithFix[], otherDiagnostics: server.Diagnostic[] = []) {
+	if (problems.length > 0) {
+		publishedProblems.set(uri, problems);
+	} else {
+		publishedProblems.delete(uri);
+	}
+	let diagnostics = problems.map(each => each.diagnostic).concat(otherDiagnostics);
+	if (!pullDiagnosticsSupport) {
+		connection.sendDiagnostics({ uri, diagnostics });
+		return;
+	}
+	// the result ID only changes with the diagnostics so that the client is not sent unchanged diagnostics
+	let report = diagnosticReports.get(uri);
+	if (report && JSON.stringify(report.diagnostics) === JSON.stringify(diagnostics)) {
+		return;
+	}
+	diagnosticReports.set(uri, { resultId: String(nextResultId++), diagnostics });
+	// the pulling client receives the diagnostics in the response, the other changes are pulled after a refresh
+	if (!pullingUris.has(uri)) {
+		triggerDiagnosticsRefresh();
+	}
+}
+
+// the diagnostics that are pulled by the client, key is the URI of the document
+let diagnosticReports = new Map<string, { resultId: string, diagnostics: server.Diagnostic[] }>();
+let nextResultId = 1;
+// the documents that are validated for a pull of their diagnostics
+let pullingUris = new Set<string>();
+let diagnosticsRefreshDelayer = new Delayer<void>(100);
+
+function triggerDiagnosticsRefresh() {
+	if (diagnosticsRefreshSupport) {
+		diagnosticsRefreshDelayer.trigger(() => connection.languages.diagnostics.refresh());
+	}
+}
+
+function getDocumentDiagnosticReport(uri: string, previousResultId: string | undefined): server.DocumentDiagnosticReport {
+	let report = diagnosticReports.get(uri);
+	if (!report) {
+		return { kind: server.DocumentDiagnosticReportKind.Full, items: [] };
+	}
+	if (report.resultId === previousResultId) {
+		return { kind: server.DocumentDiagnosticReportKind.Unchanged, resultId: report.resultId };
+	}
+	return { kind: server.DocumentDiagnosticReportKind.Full, resultId: report.resultId, items: report.diagnostics };
+}
+
+function getProgram(fsPath: string, runConfiguration: RunConfiguration): typescript.Program | undefined {
+	// the program has to be created by the typescript module that is used by the tslint library
+	let ts = getTsLintRunner().loadTypeScript(fsPath, runConfiguration);
+	if (!ts) {
+		trace(`No program: typescript could not be loaded for ${fsPath}`);
+		return undefined;
+	}
+	return programCache.getProgram(ts, fsPath);
+}
+
+let connection: server.Connection = server.createConnection(new server.IPCMessageReader(process), new server.IPCMessageWriter(process));
+let documents = new server.TextDocuments(TextDocument);
+
+// the programs used by rules requiring type information, the contents of open documents override the contents on disk
+let programCache = new ProgramCache({
+	getVersion: (filePath) => {
+		let document = documents.get(Uri.file(filePath).toString());
+		return document ? document.version : undefined;
+	},
+	getText: (filePath) => {
+		let document = documents.get(Uri.file(filePath).toString());
+		return document ? document.getText() : undefined;
+	}
+}, trace);
+// set when a document was linted with a program, the programs are created in the isolated runner as well
+let programsRequested = false;
+
+documents.listen(connection);
+
+function trace(message: string, verbose?: string): void {
+	connection.tracer.log(message, verbose);
+}
+
+connection.onInitialize((params) => {
+	function hasClientCapability(name: string) {
+		let keys = name.split('.');
+		let c = params.capabilities;
+		for (let i = 0; c && i < keys.length; i++) {
+			c = c[keys[i]];
+		}
+		return !!c;
+	}
+	scopedSettingsSupport = hasClientCapability('workspace.configuration');
+	workspaceFoldersSupport = hasClientCapability('workspace.workspaceFolders');
+	watchedFilesRegistrationSupport = hasClientCapability('workspace.didChangeWatchedFiles.dynamicRegistration');
+	pullDiagnosticsSupport = hasClientCapability('textDocument.diagnostic');
+	diagnosticsRefreshSupport = hasClientCapability('workspace.diagnostics.refreshSupport');
+	rootUri = params.rootUri;
+	let initializationOptions = params.initializationOptions;
+	if (initializationOptions && initializationOptions.storagePath) {
+		resultCacheDirectory = path.join(initializationOptions.storagePath, 'results');
+	}
+	return {
+		capabilities: {
+			textDocumentSync: server.TextDocumentSyncKind.Incremental,
+			codeActionProvider: true,
+			completionProvider: {
+				triggerCharacters: [':', ' ']
+			},
+			hoverProvider: true,
+			diagnosticProvider: pullDiagnosticsSupport ? {
+				identifier: 'tslint',
+				interFileDependencies: false,
+				workspaceDiagnostics: true
+			} : undefined,
+			definitionProvider: true,
+			workspace: {
+				workspaceFolders: {
+					supported: true,
+					changeNotifications: true
+				}
+			}
+		}
+	};
+});
+
+connection.onInitialized(() => {
+	if (workspaceFoldersSupport) {
+		connection.workspace.onDidChangeWorkspaceFolders(() => {
+			triggerValidateWorkspace(false);
+		});
+	}
+	triggerValidateWorkspace(true);
+});
+
+documents.onDidOpen(async (event) => {
+	trace('onDidOpen');
+	savedVersions.set(event.document.uri, event.document.version);
+	triggerValidateDocument(event.document);
+});
+
+documents.onDidChangeContent(async (event) => {
+	trace('onDidChangeContent');
+	let settings = await settingsCache.get(event.document.uri);
+	trace('onDidChangeContent: settings' + settings);
+	// configuration files are validated on type, they are not linted
+	if (settings && (settings.run === 'onType' || settings.run === 'workspace' || isConfigDocument(event.document.uri))) {
+		trace('onDidChangeContent: triggerValidateDocument');
+		triggerValidateDocument(event.document);
+	}
+	// clear the diagnostics when validating on save and when the document is modified
+	else if (settings && settings.run === 'onSave') {
+		publishDiagnostics(event.document.uri, []);
+	}
+});
+
+documents.onDidSave(async (event) => {
+	savedVersions.set(event.document.uri, event.document.version);
+	let settings = await settingsCache.get(event.document.uri);
+	if (settings && settings.run === 'onSave') {
+		triggerValidateDocument(event.document);
+	}
+});
+
+documents.onDidClose((event) => {
+	trace('onDidClose' + event.document.uri);
+	savedVersions.delete(event.document.uri);
+	validations.cancel(event.document.uri);
+	// A text document that is part of the linted workspace was closed, lint its contents on disk
+	let folderFiles = getWorkspaceFolderFiles(event.document.uri);
+	if (folderFiles) {
+		queueWorkspaceValidation(event.document.uri, folderFiles.settings);
+		return;
+	}
+	// A text document was closed we clear the diagnostics
+	publishDiagnostics(event.document.uri, []);
+});
+
+function triggerValidateDocument(document: TextDocument) {
+	trace('triggerValidation on ' + document.uri);
+	// the running validation is superseded by the validation of the new contents
+	let validation = validations.trigger(document.uri, token => {
+		trace('trigger validateTextDocument');
+		return lintTextDocument(connection, document, token);
+	});
+	validation.catch((err) => {
+		connection.console.error(getErrorMessage(err, document));
+	});
+}
+
+// the diagnostics of an open document are pulled when it is opened or changed, the response waits for the pending validation
+connection.languages.diagnostics.on(async (params) => {
+	let uri = params.textDocument.uri;
+	let validation = validations.getPending(uri);
+	if (validation) {
+		pullingUris.add(uri);
+		try {
+			await validation;
+		} catch {
+			// the error is reported when validating
+		} finally {
+			pullingUris.delete(uri);
+		}
+	}
+	return getDocumentDiagnosticReport(uri, params.previousResultId);
+});
+
+// the diagnostics of the files that are not open, e.g. the files linted when 'tslint.run' is set to 'workspace'
+connection.languages.diagnostics.onWorkspace((params) => {
+	let previousResultIds = new Map<string, string>();
+	params.previousResultIds.forEach(each => previousResultIds.set(each.uri, each.value));
+	let items: server.WorkspaceDocumentDiagnosticReport[] = [];
+	diagnosticReports.forEach((_report, uri) => {
+		if (!documents.get(uri)) {
+			items.push({ uri, version: null, ...getDocumentDiagnosticReport(uri, previousResultIds.get(uri)) });
+		}
+	});
+	return { items };
+});
+
+interface WorkspaceFolderFiles {
+	settings: Settings;
+	uris: Set<string>;
+}
+
+// The files linted from disk when 'tslint.run' is set to 'workspace', key is the URI of the workspace folder
+let workspaceFiles = new Map<string, WorkspaceFolderFiles>();
+let workspaceValidationQueue = new Map<string, Settings>(); // key is the URI of the file
+let workspaceValidationRunning = false;
+let workspaceDelayer = new Delayer<void>(1000);
+let revalidateAllWorkspaceFiles = false;
+
+function getWorkspaceFolderFiles(uri: string): WorkspaceFolderFiles | undefined {
+	for (let folderFiles of Array.from(workspaceFiles.values())) {
+		if (folderFiles.uris.has(uri)) {
+			return folderFiles;
+		}
+	}
+	return undefined;
+}
+
+function triggerValidateWorkspace(revalidateAll: boolean) {
+	revalidateAllWorkspaceFiles = revalidateAllWorkspaceFiles || revalidateAll;
+	workspaceDelayer.trigger(() => {
+		let revalidate = revalidateAllWorkspaceFiles;
+		revalidateAllWorkspaceFiles = false;
+		validateWorkspace(revalidate);
+	});
+}
+
+async function getWorkspaceFolders(): Promise<server.WorkspaceFolder[]> {
+	if (workspaceFoldersSupport) {
+		return await connection.workspace.getWorkspaceFolders() || [];
+	}
+	return rootUri ? [{ uri: rootUri, name: '' }] : [];
+}
+
+async function validateWorkspace(revalidateAll: boolean): Promise<void> {
+	trace('validateWorkspace');
+	let folders = await getWorkspaceFolders();
+	for (let folder of folders) {
+		try {
+			await validateWorkspaceFolder(folder, revalidateAll);
+		} catch (err) {
+			connection.console.error(`vscode-tslint: '${err.message}' while linting the workspace folder: ${folder.uri}`);
+		}
+	}
+	// forget the files of removed workspace folders
+	for (let folderUri of Array.from(workspaceFiles.keys())) {
+		if (!folders.some(each => each.uri === folderUri)) {
+			clearWorkspaceFiles(folderUri, new Set<string>());
+		}
+	}
+}
+
+async function validateWorkspaceFolder(folder: server.WorkspaceFolder, revalidateAll: boolean): Promise<void> {
+	let folderPath = server.Files.uriToFilePath(folder.uri);
+	let settings = await settingsCache.get(folder.uri);
+	if (!folderPath || !settings || !settings.enable || settings.run !== 'workspace') {
+		clearWorkspaceFiles(folder.uri, new Set<string>());
+		return;
+	}
+
+	let runner = getTsLintRunner();
+	let runConfiguration = getRunConfiguration(settings);
+	let filePaths = await findWorkspaceFiles(folderPath, settings.jsEnable, tsconfigPath => runner.loadTypeScript(tsconfigPath, runConfiguration));
+	let uris = new Set(filePaths.map(each => Uri.file(each).toString()));
+	trace(`validateWorkspace: found ${uris.size} files in ${folderPath}`);
+
+	let previous = workspaceFiles.get(folder.uri);
+	clearWorkspaceFiles(folder.uri, uris);
+	workspaceFiles.set(folder.uri, { settings, uris });
+	uris.forEach(uri => {
+		if (revalidateAll || !previous || !previous.uris.has(uri)) {
+			queueWorkspaceValidation(uri, settings);
+		}
+	});
+}
+
+function clearWorkspaceFiles(folderUri: string, keep: Set<string>) {
+	let folderFiles = workspaceFiles.get(folderUri);
+	if (!folderFiles) {
+		return;
+	}
+	folderFiles.uris.forEach(uri => {
+		if (!keep.has(uri)) {
+			workspaceValidationQueue.delete(uri);
+			if (!documents.get(uri)) {
+				publishDiagnostics(uri, []);
+			}
+		}
+	});
+	workspaceFiles.delete(folderUri);
+}
+
+function queueWorkspaceValidation(uri: string, settings: Settings) {
+	workspaceValidationQueue.delete(uri);
+	workspaceValidationQueue.set(uri, settings);
+	if (!workspaceValidationRunning) {
+		workspaceValidationRunning = true;
+		setImmediate(processWorkspaceValidationQueue);
+	}
+}
+
+async function processWorkspaceValidationQueue() {
+	let next = workspaceValidationQueue.entries().next();
+	if (next.done) {
+		workspaceValidationRunning = false;
+		return;
+	}
+	let [uri, settings] = next.value;
+	workspaceValidationQueue.delete(uri);
+	// open documents are validated using the contents of the editor
+	if (!documents.get(uri)) {
+		await validateFileOnDisk(uri, settings);
+	}
+	// lint one file at a time so that requests from the client are not blocked
+	setImmediate(processWorkspaceValidationQueue);
+}
+
+async function validateFileOnDisk(uri: string, settings: Settings) {
+	let fsPath = server.Files.uriToFilePath(uri);
+	let contents: string;
+	try {
+		contents = fs.readFileSync(fsPath!, 'utf8');
+	} catch (err) {
+		publishDiagnostics(uri, []);
+		return;
+	}
+	let document = TextDocument.create(uri, /\.jsx?$/i.test(fsPath!) ? 'javascript' : 'typescript', 0, contents);
+	try {
+		await validateTextDocument(connection, document, settings);
+	} catch (err) {
+		connection.console.error(getErrorMessage(err, document));
+	}
+}
+
+function onDidChangeWorkspaceFile(change: server.FileEvent, filePath: string) {
+	if (isProjectConfigFile(filePath)) {
+		programCache.onDidChangeProjectConfig(filePath);
+		if (isolatedRunner) {
+			isolatedRunner.onDidChangeProjectConfig(filePath);
+		}
+	} else {
+		programCache.onDidChangeFile(filePath, change.type !== server.FileChangeType.Changed);
+		if (isolatedRunner) {
+			isolatedRunner.onDidChangeFile(filePath, change.type !== server.FileChangeType.Changed);
+		}
+	}
+	// an extended configuration file may be installed in node_modules
+	if (isInIgnoredDirectory(filePath) && !watchedProjectDependencies.has(path.normalize(filePath))) {
+		return;
+	}
+	if (change.type !== server.FileChangeType.Changed || isProjectConfigFile(filePath)) {
+		// the set of files covered by the workspace may have changed
+		triggerValidateWorkspace(false);
+		return;
+	}
+	// open documents are validated when their contents change
+	if (documents.get(change.uri)) {
+		return;
+	}
+	let folderFiles = getWorkspaceFolderFiles(change.uri);
+	if (folderFiles && isLintableFile(filePath, folderFiles.settings.jsEnable)) {
+		queueWorkspaceValidation(change.uri, folderFiles.settings);
+	}
 }
 
-let connection: server.IConnection = server.createConnection(new server.IPCMessageReader(process), new server.IPCMessageWriter(process));
-let documents: server.TextDocuments = new server.TextDocuments();
-
-documents.listen(connection);
+// The configuration files that are extended by a tslint.json file, key is the normalized path
+let watchedConfigDependencies = new Set<string>();
 
-function trace(message: string, verbose?: string): void {
-	connection.tracer.log(message, verbose);
+function isConfigFile(filePath: string): boolean {
+	let fileName = path.basename(filePath);
+	return fileName === 'tslint.json' || fileName === 'tslint.yaml' || fileName === 'tslint.yml' || watchedConfigDependencies.has(path.normalize(filePath));
 }
 
-connection.onInitialize((params) => {
-	function hasClientCapability(name: string) {
-		let keys = name.split('.');
-		let c = params.capabilities;
-		for (let i = 0; c && i < keys.length; i++) {
-			c = c[keys[i]];
-		}
-		return !!c;
-	}
-	scopedSettingsSupport = hasClientCapability('workspace.configuration');
-	return {
-		capabilities: {
-			textDocumentSync: documents.syncKind,
-			codeActionProvider: true
-		}
-	};
-});
-
-documents.onDidOpen(async (event) => {
-	trace('onDidOpen');
-	triggerValidateDocument(event.document);
-});
+function isConfigDocument(uri: string): boolean {
+	return Uri.parse(uri).scheme === 'file' && isConfigFile(server.Files.uriToFilePath(uri)!);
+}
 
-documents.onDidChangeContent(async (event) => {
-	trace('onDidChangeContent');
-	let settings = await settingsCache.get(event.document.uri);
-	trace('onDidChangeContent: settings' + settings);
-	if (settings && settings.run === 'onType') {
-		trace('onDidChangeContent: triggerValidateDocument');
-		triggerValidateDocument(event.document);
+// The client only watches the tslint.json files, watch the extended configuration files as well
+function watchConfigDependencies(dependencies: string[] | undefined) {
+	if (!watchedFilesRegistrationSupport || !dependencies) {
+		return;
 	}
-	// clear the diagnostics when validating on save and when the document is modified
-	else if (settings && settings.run === 'onSave') {
-		connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
+	let added = dependencies.filter(each => !watchedConfigDependencies.has(each) && !isConfigFile(each));
+	if (added.length === 0) {
+		return;
 	}
-});
+	added.forEach(each => watchedConfigDependencies.add(each));
+	watchFiles(added);
+}
 
-documents.onDidSave(async (event) => {
-	let settings = await settingsCache.get(event.document.uri);
-	if (settings && settings.run === 'onSave') {
-		triggerValidateDocument(event.document);
-	}
-});
+// The configuration files that are extended by a tsconfig.json file, key is the normalized path
+let watchedProjectDependencies = new Set<string>();
 
-documents.onDidClose((event) => {
-	// A text document was closed we clear the diagnostics
-	trace('onDidClose' + event.document.uri);
-	connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
-});
+function isProjectConfigFile(filePath: string): boolean {
+	return path.basename(filePath) === 'tsconfig.json' || watchedProjectDependencies.has(path.normalize(filePath));
+}
 
-function triggerValidateDocument(document: server.TextDocument) {
-	let d = validationDelayer[document.uri];
-	trace('triggerValidation on ' + document.uri);
-	if (!d) {
-		d = new Delayer<void>(200);
-		validationDelayer[document.uri] = d;
+// The client only watches the tsconfig.json files, watch the configuration files they extend as well
+function watchProjectDependencies(dependencies: string[] | undefined) {
+	if (!watchedFilesRegistrationSupport || !dependencies) {
+		return;
 	}
-	d.trigger(async () => {
-		trace('trigger validateTextDocument');
-		forceValidation(connection, document);
-	});
+	let added = dependencies.filter(each => !isProjectConfigFile(each));
+	if (added.length === 0) {
+		return;
+	}
+	added.forEach(each => watchedProjectDependencies.add(each));
+	watchFiles(added);
 }
 
-async function forceValidation(connection: server.IConnection, document: server.TextDocument) {
-	if (validationDelayer[document.uri]) {
-		await validateTextDocument(connection, document);
-		delete validationDelayer[document.uri];
-	}
+function watchFiles(filePaths: string[]) {
+	connection.client.register(server.DidChangeWatchedFilesNotification.type, {
+		watchers: filePaths.map(each => ({ globPattern: each.replace(/\\/g, '/') }))
+	});
 }
 
 function tslintConfigurationValid(): boolean {
@@ -383,39 +1320,99 @@ connection.onDidChangeConfiguration((params) => {
 	trace('onDidChangeConfiguraton');
 
 	globalSettings = params.settings;
+	if (!globalSettings || !globalSettings.collectRuleStatistics) {
+		ruleStatistics.clear();
+	}
 	if (tslintRunner) {
 		tslintRunner.onConfigFileChange('');
 	}
+	if (isolatedRunner) {
+		isolatedRunner.onConfigFileChange('');
+	}
 	settingsCache.flush();
 	validateAllTextDocuments(connection, documents.all());
+	triggerValidateWorkspace(true);
 });
 
+// The source files watched by the client
+const sourceFilePattern = /\.(ts|tsx|js|jsx)$/i;
+
 // The watched tslint.json has changed. Revalidate all documents, IF the configuration is valid.
+// Changes to other watched files update the diagnostics of the linted workspace.
 connection.onDidChangeWatchedFiles((params) => {
-	// Tslint 3.7 started to load configuration files using 'require' and they are now
-	// cached in the node module cache. To ensure that the extension uses
-	// the latest configuration file we remove the config file from the module cache.
+	let configFileChanged = false;
+	let baselineChanged = false;
+	let repositoryChanged = false;
 	params.changes.forEach(element => {
-		let configFilePath = server.Files.uriToFilePath(element.uri);
-		if (configFilePath) {
-			let cached = require.cache[configFilePath];
-			if (cached) {
-				delete require.cache[configFilePath];
-			}
+		// the client watches all source files, they are only needed when linting the workspace or with programs
+		if (workspaceFiles.size === 0 && !programsRequested && sourceFilePattern.test(element.uri)) {
+			return;
+		}
+		let filePath = server.Files.uriToFilePath(element.uri);
+		if (!filePath) {
+			return;
+		}
+		if (path.basename(filePath) === baselineFileName) {
+			baselineChanged = true;
+			return;
+		}
+		// a commit was created, another branch was checked out or files were staged
+		if (isWatchedRepositoryStateFile(filePath)) {
+			repositoryChanged = true;
+			return;
+		}
+		if (!isConfigFile(filePath)) {
+			onDidChangeWorkspaceFile(element, filePath);
+			return;
+		}
+		configFileChanged = true;
+		// Tslint 3.7 started to load configuration files using 'require' and they are now
+		// cached in the node module cache. To ensure that the extension uses
+		// the latest configuration file we remove the config file from the module cache.
+		let cached = require.cache[filePath];
+		if (cached) {
+			delete require.cache[filePath];
+		}
+		if (tslintRunner) {
+			tslintRunner.onConfigFileChange(filePath);
+		}
+		if (isolatedRunner) {
+			isolatedRunner.onConfigFileChange(filePath);
 		}
 	});
-
-	if (tslintRunner) {
-		tslintRunner.onConfigFileChange('');
+	if (!configFileChanged) {
+		// the failures are filtered again with the changed baseline or changed lines
+		if (baselineChanged) {
+			validateAllTextDocuments(connection, documents.all());
+			triggerValidateWorkspace(true);
+		} else if (repositoryChanged && baseContentsCache.size > 0) {
+			reloadBaseContents().then(changed => {
+				if (changed) {
+					validateAllTextDocuments(connection, documents.all());
+					triggerValidateWorkspace(true);
+				}
+			});
+		}
+		return;
 	}
+
 	if (tslintConfigurationValid()) {
 		validateAllTextDocuments(connection, documents.all());
+		triggerValidateWorkspace(true);
 	}
 });
 
-connection.onCodeAction((params) => {
+connection.onCodeAction(async (params, token) => {
 	let result: server.CodeAction[] = [];
 	let uri = params.textDocument.uri;
+	// the fixes are recorded when validating, provide the fixes of the current contents
+	let document = documents.get(uri);
+	if (document) {
+		await validations.awaitValidation(document.uri);
+	}
+	if (token.isCancellationRequested) {
+		return null;
+	}
 	let documentVersion: number = -1;
 	let ruleId: string | undefined = undefined;
 
@@ -501,17 +1498,22 @@ connection.onCodeAction((params) => {
 			}
 		}
 	}
-	// add the fix to disable the rule
+	// add the fixes to disable the rule
 	let disableRuleFixes = codeDisableRuleActions[uri];
 	if (disableRuleFixes) {
+		let selectedProblems: LintFailure[] = [];
 		for (let diagnostic of params.context.diagnostics) {
-			let autoFix = disableRuleFixes[computeKey(diagnostic)];
-			if (autoFix) {
+			let autoFixes: AutoFix[] | undefined = disableRuleFixes[computeKey(diagnostic)];
+			if (!autoFixes) {
+				continue;
+			}
+			selectedProblems.push(autoFixes[0].problem);
+			for (let autoFix of autoFixes) {
 				documentVersion = autoFix.documentVersion;
 				ruleId = autoFix.problem.getRuleName();
 				let command = server.Command.create(
 					autoFix.label,
-					'_tslint.applyDisableRule',
+					'_tslint.applySingleFix',
 					uri,
 					documentVersion,
 					createTextEdit(autoFix)
@@ -527,12 +1529,56 @@ connection.onCodeAction((params) => {
 				);
 			}
 		}
+		// disable the rules of the problems in a selection with comments around the selection
+		let range = params.range;
+		let isSelection = range.start.line !== range.end.line || range.start.character !== range.end.character;
+		if (isSelection && document && selectedProblems.length > 0 && document.version === documentVersion) {
+			let autoFix = createDisableSelectionFix(selectedProblems, document, range);
+			let command = server.Command.create(
+				autoFix.label,
+				'_tslint.applySingleFix',
+				uri,
+				documentVersion,
+				createTextEdit(autoFix)
+			);
+			result.push(
+				server.CodeAction.create(
+					autoFix.label,
+					command,
+					server.CodeActionKind.QuickFix
+				)
+			);
+		}
+	}
+	// add the fixes to remove unused comments that disable rules
+	let commentFixes = unusedDisableCommentFixes.get(uri);
+	if (commentFixes) {
+		let hasUnusedComment = false;
+		for (let diagnostic of params.context.diagnostics) {
+			let commentFix = commentFixes.fixes.get(computeKey(diagnostic));
+			if (commentFix) {
+				hasUnusedComment = true;
+				let command = server.Command.create(commentFix.label, '_tslint.applySingleFix', uri, commentFixes.documentVersion, createTextEdit(commentFix));
+				let codeAction = server.CodeAction.create(commentFix.label, command, server.CodeActionKind.QuickFix);
+				codeAction.diagnostics = [diagnostic];
+				result.push(codeAction);
+			}
+		}
+		if (hasUnusedComment && commentFixes.all.length > 1) {
+			let label = 'Remove all unused tslint:disable comments';
+			let command = server.Command.create(label, '_tslint.applySameFixes', uri, commentFixes.documentVersion, createTextEdit({ edits: commentFixes.all }));
+			result.push(
+				server.CodeAction.create(`${label} (tslint)`, command, server.CodeActionKind.Source),
+				server.CodeAction.create(label, command, server.CodeActionKind.QuickFix)
+			);
+		}
 	}
 	// quick fix to show the rule documentation
 	if (documentFixes) {
 		for (let diagnostic of params.context.diagnostics) {
-			let autoFix = disableRuleFixes[computeKey(diagnostic)];
-			if (autoFix) {
+			let autoFixes: AutoFix[] | undefined = disableRuleFixes[computeKey(diagnostic)];
+			if (autoFixes) {
+				let autoFix = autoFixes[0];
 				documentVersion = autoFix.documentVersion;
 				let ruleId = autoFix.problem.getRuleName();
 				let label = `Show documentation for "${ruleId}"`;
@@ -561,7 +1607,7 @@ connection.onCodeAction((params) => {
 });
 
 
-function replacementsAreEmpty(fix: tslint.Fix | undefined): boolean {
+function replacementsAreEmpty(fix: LintFix | undefined): boolean {
 	// in tslint 4 a Fix has a replacement property witht the Replacements
 	if ((<any>fix).replacements) {
 		return (<any>fix).replacements.length === 0;
@@ -573,10 +1619,10 @@ function replacementsAreEmpty(fix: tslint.Fix | undefined): boolean {
 	return false;
 }
 
-function createAutoFix(problem: tslint.RuleFailure, document: server.TextDocument, fix: tslint.Fix | TSLintAutofixEdit): AutoFix {
+function createAutoFix(problem: LintFailure, document: TextDocument, fix: LintFix | TSLintAutofixEdit): AutoFix {
 	let edits: TSLintAutofixEdit[] = [];
 
-	function isTslintAutofixEdit(fix: tslint.Fix | TSLintAutofixEdit | undefined): fix is TSLintAutofixEdit {
+	function isTslintAutofixEdit(fix: LintFix | TSLintAutofixEdit | undefined): fix is TSLintAutofixEdit {
 		return (<TSLintAutofixEdit>fix).range !== undefined;
 	}
 
@@ -606,26 +1652,43 @@ function createAutoFix(problem: tslint.RuleFailure, document: server.TextDocumen
 	return autofix;
 }
 
-function createDisableRuleFix(problem: tslint.RuleFailure, document: server.TextDocument): AutoFix {
-
-	let pos: server.Position = {
-		character: 0,
-		line: problem.getStartPosition().getLineAndCharacter().line
-	};
+function createDisableRuleFixes(problem: LintFailure, document: TextDocument, lines: string[]): AutoFix[] {
+	let ruleName = problem.getRuleName();
+	let line = problem.getStartPosition().getLineAndCharacter().line;
+	let eol = getEol(document.getText());
 
-	let disableEdit: TSLintAutofixEdit = {
-		range: [pos, pos],
-		// prefix to the text will be inserted on the client
-		text: `// tslint:disable-next-line:${problem.getRuleName()}\n`
+	let createFix = (label: string, edit: TSLintAutofixEdit): AutoFix => {
+		return { label, documentVersion: document.version, problem, edits: [edit] };
 	};
+	return [
+		createFix(`Disable rule "${ruleName}" for this line`, createDisableNextLineEdit(lines, line, ruleName, eol)),
+		createFix(`Disable rule "${ruleName}" for this line with a trailing comment`, createDisableLineEdit(lines, line, ruleName)),
+		createFix(`Disable rule "${ruleName}" for the entire file`, createDisableFileEdit(lines, ruleName, eol))
+	];
+}
 
-	let disableFix: AutoFix = {
-		label: `Disable rule "${problem.getRuleName()}" for this line`,
+/**
+ * Creates a fix that disables the rules of the given problems for the selected lines.
+ */
+function createDisableSelectionFix(problems: LintFailure[], document: TextDocument, selection: server.Range): AutoFix {
+	let ruleNames: string[] = [];
+	problems.forEach(each => {
+		if (ruleNames.indexOf(each.getRuleName()) === -1) {
+			ruleNames.push(each.getRuleName());
+		}
+	});
+	// a selection that ends at the beginning of a line does not include this line
+	let endLine = selection.end.character === 0 && selection.end.line > selection.start.line ? selection.end.line - 1 : selection.end.line;
+	let text = document.getText();
+	let label = ruleNames.length === 1
+		? `Disable rule "${ruleNames[0]}" for the selection`
+		: `Disable rules ${ruleNames.map(each => `"${each}"`).join(', ')} for the selection`;
+	return {
+		label,
 		documentVersion: document.version,
-		problem: problem,
-		edits: [disableEdit]
+		problem: problems[0],
+		edits: createDisableSelectionEdits(getLines(text), selection.start.line, endLine, ruleNames, getEol(text))
 	};
-	return disableFix;
 }
 
 function sortFixes(fixes: AutoFix[]): AutoFix[] {
@@ -696,68 +1759,474 @@ export function getAllNonOverlappingFixes(fixes: AutoFix[]): [AutoFix[], boolean
 	return [nonOverlapping, hasOverlappingFixes];
 }
 
-function createTextEdit(autoFix: AutoFix): server.TextEdit[] {
+function createTextEdit(autoFix: { edits: TSLintAutofixEdit[] }): server.TextEdit[] {
 	return autoFix.edits.map(each => server.TextEdit.replace(server.Range.create(each.range[0], each.range[1]), each.text || ''));
 }
 
 interface AllFixesParams {
 	textDocument: server.TextDocumentIdentifier;
 	isOnSave: boolean;
+	// the time in ms after which no more fixes are computed
+	timeBudget?: number;
 }
 
 interface AllFixesResult {
 	documentVersion: number;
 	edits: server.TextEdit[];
+	// the number of fixes that are applied by the edits
+	fixCount: number;
+	// true when not all fixes could be applied, e.g. because the maximum number of rounds was reached
 	overlappingFixes: boolean;
 }
 
 namespace AllFixesRequest {
-	export const type = new server.RequestType<AllFixesParams, AllFixesResult, void, void>('textDocument/tslint/allFixes');
+	export const type = new server.RequestType<AllFixesParams, AllFixesResult, void>('textDocument/tslint/allFixes');
+}
+
+const maxFixAllRounds = 10;
+
+function getFixesToApply(fixes: AutoFix[], settings: Settings | undefined, isOnSave: boolean): AutoFix[] {
+	// Filter out fixes for problems that aren't defined to be autofixable on save
+	if (isOnSave && settings && Array.isArray(settings.autoFixOnSave)) {
+		const autoFixOnSave = settings.autoFixOnSave as Array<string>;
+		return fixes.filter(fix => autoFixOnSave.indexOf(fix.problem.getRuleName()) > -1);
+	}
+	return fixes;
+}
+
+/**
+ * Lints contents that are not shown in the editor, e.g. the fixed contents of a document that only exist in
+ * memory, and returns the fixes of the problems.
+ */
+async function getFixesForContents(document: TextDocument, settings: Settings, typeCheck: boolean, token?: server.CancellationToken): Promise<AutoFix[] | undefined> {
+	let fsPath = getDocumentPath(document, settings)!;
+	let result = await runLinter(fsPath, document.getText(), settings, typeCheck, false, token);
+	if (result.failed) {
+		return undefined;
+	}
+	let fixes: AutoFix[] = [];
+	getShownFailures(fsPath, result.lintResult.failures, settings).forEach(each => {
+		let fix = getAutoFix(each, document);
+		if (fix) {
+			fixes.push(fix);
+		}
+	});
+	return fixes;
+}
+
+/**
+ * Returns the document with the given URI, documents that are not open in the editor are read from disk
+ * and have the version -1.
+ */
+function getDocumentOrFile(uri: string): TextDocument | undefined {
+	let document = documents.get(uri);
+	if (document) {
+		return document;
+	}
+	if (Uri.parse(uri).scheme !== 'file') {
+		return undefined;
+	}
+	let fsPath = server.Files.uriToFilePath(uri)!;
+	try {
+		return TextDocument.create(uri, /\.jsx?$/i.test(fsPath) ? 'javascript' : 'typescript', -1, fs.readFileSync(fsPath, 'utf8'));
+	} catch (err) {
+		return undefined;
+	}
 }
 
-connection.onRequest(AllFixesRequest.type, async (params) => {
-	let result: AllFixesResult | undefined = undefined;
+connection.onRequest(AllFixesRequest.type, async (params, token) => {
+	let start = Date.now();
 	let uri = params.textDocument.uri;
 	let isOnSave = params.isOnSave;
-	let document = documents.get(uri);
+	let document = getDocumentOrFile(uri);
 
 	if (!document) {
 		return undefined;
 	}
 
-	await forceValidation(connection, document);
-
-	let documentFixes = codeFixActions[uri];
-	let documentVersion: number = -1;
 	let settings = await settingsCache.get(uri);
-
-	if (!documentFixes) {
+	if (!settings || !settings.enable) {
 		return undefined;
 	}
 
-	let fixes: AutoFix[] = Object.keys(documentFixes).map(key => documentFixes[key]);
+	// The fixes of the first round are the fixes of the validated document. The non overlapping fixes are
+	// applied in memory and the fixed contents are linted again until no fixes remain.
+	let documentVersion = document.version;
+	let allFixes: AutoFix[] | undefined;
+	if (documents.get(uri)) {
+		await validations.awaitValidation(document.uri);
+		if (token.isCancellationRequested) {
+			return undefined;
+		}
+		let documentFixes = codeFixActions[uri];
+		allFixes = documentFixes ? Object.keys(documentFixes).map(key => documentFixes[key]) : undefined;
+	} else {
+		try {
+			allFixes = await getFixesForContents(document, settings, isTypeChecked(document, settings), token);
+		} catch (err) {
+			if (token.isCancellationRequested) {
+				return undefined;
+			}
+			connection.console.error(getErrorMessage(err, document));
+		}
+	}
+	if (!allFixes) {
+		return undefined;
+	}
 
-	for (let fix of fixes) {
-		if (documentVersion === -1) {
-			documentVersion = fix.documentVersion;
+	let original = document.getText();
+	let fixed = document;
+	let fixCount = 0;
+	let fixes = getFixesToApply(allFixes, settings, isOnSave);
+	if (fixes.some(each => each.documentVersion !== documentVersion)) {
+		trace(`allFixes: the fixes are outdated for ${uri}`);
+		return undefined;
+	}
+	let round = 0;
+	while (fixes.length > 0) {
+		if (round++ === maxFixAllRounds || (params.timeBudget && Date.now() - start > params.timeBudget)) {
+			trace(`allFixes: stopped after ${round - 1} rounds, fixes remain for ${uri}`);
+			break;
+		}
+		if (token.isCancellationRequested) {
+			return undefined;
+		}
+		let [nonOverlapping] = getAllNonOverlappingFixes(fixes);
+		let text = TextDocument.applyEdits(fixed, concatenateEdits(nonOverlapping));
+		if (text === fixed.getText()) {
+			fixes = [];
+			break;
+		}
+		fixCount += nonOverlapping.length;
+		fixed = TextDocument.create(uri, document.languageId, documentVersion, text);
+		// a program contains the contents of the open documents and not the fixed contents, rules that require
+		// type information only contribute fixes to the first round
+		let nextFixes: AutoFix[] | undefined;
+		try {
+			nextFixes = await getFixesForContents(fixed, settings, false, token);
+		} catch (err) {
+			if (token.isCancellationRequested) {
+				return undefined;
+			}
+			connection.console.error(getErrorMessage(err, document));
+		}
+		if (!nextFixes) {
 			break;
 		}
+		fixes = getFixesToApply(nextFixes, settings, isOnSave);
 	}
 
-	// Filter out fixes for problems that aren't defined to be autofixable on save
-	if (isOnSave && settings && Array.isArray(settings.autoFixOnSave)) {
-		const autoFixOnSave = settings.autoFixOnSave as Array<string>;
-		fixes = fixes.filter(fix => autoFixOnSave.indexOf(fix.problem.getRuleName()) > -1);
+	// return a minimal set of edits against the validated document version
+	let result: AllFixesResult = {
+		documentVersion: documentVersion,
+		edits: diffText(original, fixed.getText()).map(each => server.TextEdit.replace(
+			server.Range.create(document!.positionAt(each.start), document!.positionAt(each.end)),
+			each.text
+		)),
+		fixCount: fixCount,
+		overlappingFixes: fixes.length > 0
+	};
+	return result;
+});
+
+/**
+ * Returns the document and the settings for a request on a file that is linted
+ */
+async function getLintedDocument(uri: string): Promise<{ document: TextDocument, fsPath: string, settings: Settings } | undefined> {
+	let document = documents.get(uri);
+	if (!document) {
+		return undefined;
 	}
+	let settings = await settingsCache.get(uri);
+	if (!settings || !settings.enable) {
+		return undefined;
+	}
+	let fsPath = getDocumentPath(document, settings);
+	return fsPath ? { document, fsPath, settings } : undefined;
+}
 
-	let [allFixes, overlappingEdits] = getAllNonOverlappingFixes(fixes);
+function getLineText(document: TextDocument, line: number): string {
+	let text = document.getText({ start: { line, character: 0 }, end: { line: line + 1, character: 0 } });
+	return text.replace(/\r?\n$|\r$/, '');
+}
 
-	result = {
-		documentVersion: documentVersion,
-		edits: concatenateEdits(allFixes),
-		overlappingFixes: overlappingEdits
+// complete the rule names in the comments that enable or disable rules and the rules of the configuration files
+connection.onCompletion(async (params) => {
+	let linted = await getLintedDocument(params.textDocument.uri);
+	if (!linted) {
+		return null;
+	}
+	let { document, fsPath, settings } = linted;
+	if (isConfigFile(fsPath)) {
+		return getConfigFileCompletions(document, fsPath, settings, params.position);
+	}
+	let line = getLineText(document, params.position.line);
+	let character = params.position.character;
+	let comment = parseDisableComments(line).find(each => each.listStart !== undefined && each.listStart <= character && character <= each.listEnd!);
+	if (!comment) {
+		return null;
+	}
+	let wordStart = character;
+	while (wordStart > comment.listStart! && /\S/.test(line[wordStart - 1])) {
+		wordStart--;
+	}
+	let range = { start: { line: params.position.line, character: wordStart }, end: params.position };
+	let typed = line.substring(wordStart, character);
+	let otherRules = comment.rules.filter(each => each !== typed);
+	return getTsLintRunner().getEnabledRuleNames(fsPath, getRunConfiguration(settings))
+		.filter(each => otherRules.indexOf(each) === -1)
+		.map(each => {
+			let description = getRuleDescription(fsPath, each, settings);
+			let item: server.CompletionItem = {
+				label: each,
+				kind: server.CompletionItemKind.Value,
+				textEdit: server.TextEdit.replace(range, each)
+			};
+			if (description.metadata) {
+				item.documentation = description.metadata.description;
+			}
+			return item;
+		});
+});
+
+function getConfigFileCompletions(document: TextDocument, fsPath: string, settings: Settings, position: server.Position): server.CompletionItem[] {
+	let rules = getTsLintRunner().getAvailableRules(fsPath, getFileRunConfiguration(fsPath, settings)) || [];
+	return getConfigCompletions(parseConfigFile(document, fsPath), document.offsetAt(position), rules).map(each => {
+		let item: server.CompletionItem = {
+			label: each.label,
+			kind: each.kind === 'value' ? server.CompletionItemKind.Value : server.CompletionItemKind.Property,
+			// the replaced text of a JSON document includes the quotes
+			filterText: each.insertText,
+			textEdit: server.TextEdit.replace({ start: document.positionAt(each.start), end: document.positionAt(each.end) }, each.insertText)
+		};
+		let metadata = each.rule && each.rule.metadata;
+		if (metadata) {
+			item.documentation = metadata.description;
+			if (metadata.deprecationMessage !== undefined) {
+				item.tags = [server.CompletionItemTag.Deprecated];
+			}
+		}
+		return item;
+	});
+}
+
+// show the description and the configured options of the rule names in the comments that enable or disable rules
+// and in the configuration files
+connection.onHover(async (params) => {
+	let linted = await getLintedDocument(params.textDocument.uri);
+	if (!linted) {
+		return null;
+	}
+	let { document, fsPath, settings } = linted;
+	if (isConfigFile(fsPath)) {
+		let configReference = findConfigRuleReference(parseConfigFile(document, fsPath), document.offsetAt(params.position));
+		return configReference ? {
+			contents: { kind: server.MarkupKind.Markdown, value: formatRuleSummary(getRuleDescription(fsPath, configReference.ruleName, settings)) },
+			range: { start: document.positionAt(configReference.start), end: document.positionAt(configReference.end) }
+		} : null;
+	}
+	let line = getLineText(document, params.position.line);
+	let character = params.position.character;
+	let reference = getRuleNameReferences(line).find(each => each.start <= character && character <= each.end);
+	if (!reference) {
+		return null;
+	}
+	return {
+		contents: { kind: server.MarkupKind.Markdown, value: formatRuleSummary(getRuleDescription(fsPath, reference.name, settings)) },
+		range: {
+			start: { line: params.position.line, character: reference.start },
+			end: { line: params.position.line, character: reference.end }
+		}
 	};
-	return result;
+});
+
+// navigate from a rule name of a configuration file to the module implementing the rule
+connection.onDefinition(async (params) => {
+	let linted = await getLintedDocument(params.textDocument.uri);
+	if (!linted || !isConfigFile(linted.fsPath)) {
+		return null;
+	}
+	let { document, fsPath, settings } = linted;
+	let reference = findConfigRuleReference(parseConfigFile(document, fsPath), document.offsetAt(params.position));
+	let location = reference && getTsLintRunner().findRule(fsPath, reference.ruleName, getFileRunConfiguration(fsPath, settings));
+	return location ? getRuleDefinition(location) : null;
+});
+
+/**
+ * Returns the location of the `Rule` class of a rule. The TypeScript source next to the loaded module is preferred,
+ * e.g. `noFooRule.ts` for `noFooRule.js`.
+ */
+function getRuleDefinition(location: RuleLocation): server.Location {
+	let rulePath = location.path;
+	let sourcePath = rulePath.replace(/\.js$/, '.ts');
+	if (sourcePath !== rulePath && fs.existsSync(sourcePath)) {
+		rulePath = sourcePath;
+	}
+	let range = { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } };
+	try {
+		// the class is declared as a variable when the rule is compiled to ES5
+		let declaration = /\b(?:class|var|let|const)\s+(Rule)\b/;
+		let lines = getLines(fs.readFileSync(rulePath, 'utf8'));
+		let line = lines.findIndex(each => declaration.test(each));
+		if (line !== -1) {
+			let match = declaration.exec(lines[line])!;
+			let character = match.index + match[0].length - match[1].length;
+			range = { start: { line, character }, end: { line, character: character + match[1].length } };
+		}
+	} catch (e) {
+		trace(`Failed to read the rule ${rulePath}`);
+	}
+	return { uri: Uri.file(rulePath).toString(), range };
+}
+
+interface RuleDocumentationParams {
+	// the document with the problem of the rule
+	uri: string;
+	ruleName: string;
+}
+
+namespace RuleDocumentationRequest {
+	export const type = new server.RequestType<RuleDocumentationParams, RuleDocumentation, void>('tslint/ruleDocumentation');
+}
+
+connection.onRequest(RuleDocumentationRequest.type, async (params) => {
+	let settings = await settingsCache.get(params.uri);
+	let fsPath = Uri.parse(params.uri).scheme === 'file' ? server.Files.uriToFilePath(params.uri) : undefined;
+	let document = documents.get(params.uri);
+	if (document) {
+		fsPath = getDocumentPath(document, settings);
+	}
+	return getRuleDocumentation(fsPath, params.ruleName, settings);
+});
+
+interface ExplainConfigurationParams {
+	uri: string;
+}
+
+namespace ExplainConfigurationRequest {
+	// the markdown explaining the configuration, null when the file is not linted by the extension
+	export const type = new server.RequestType<ExplainConfigurationParams, string | null, void>('tslint/explainConfiguration');
+}
+
+connection.onRequest(ExplainConfigurationRequest.type, async (params) => {
+	let linted = await getLintedDocument(params.uri);
+	if (!linted) {
+		return null;
+	}
+	let explanation = getTsLintRunner().explainConfiguration(linted.fsPath, getRunConfiguration(linted.settings));
+	return explanation ? formatConfigurationExplanation(explanation, linted.settings.workspaceFolderPath) : null;
+});
+
+interface ProfileRulesParams {
+	uri: string;
+}
+
+namespace ProfileRulesRequest {
+	// the markdown with the time spent in each rule, null when the rules of the file could not be profiled
+	export const type = new server.RequestType<ProfileRulesParams, string | null, void>('tslint/profileRules');
+}
+
+connection.onRequest(ProfileRulesRequest.type, async (params) => {
+	let linted = await getLintedDocument(params.uri);
+	if (!linted || isConfigFile(linted.fsPath)) {
+		return null;
+	}
+	let { document, fsPath, settings } = linted;
+	let start = process.hrtime();
+	let result = await runLinter(fsPath, document.getText(), settings, isTypeChecked(document, settings), true);
+	let [seconds, nanoseconds] = process.hrtime(start);
+	// no timings when the file is excluded or the tslint library cannot be instrumented
+	if (result.failed || !result.ruleTimings) {
+		return null;
+	}
+	let statistics = settings.collectRuleStatistics ? ruleStatistics.getStatistics() : undefined;
+	return formatRuleProfile(fsPath, result.ruleTimings, seconds * 1000 + nanoseconds / 1e6, statistics);
+});
+
+interface LintableFilesParams {
+	// the workspace folder and optionally a folder inside of it
+	workspaceFolder: string;
+	folder?: string;
+}
+
+namespace LintableFilesRequest {
+	export const type = new server.RequestType<LintableFilesParams, string[], void>('tslint/lintableFiles');
+}
+
+connection.onRequest(LintableFilesRequest.type, async (params) => {
+	let settings = await settingsCache.get(params.workspaceFolder);
+	let folderPath = server.Files.uriToFilePath(params.workspaceFolder);
+	if (!settings || !settings.enable || !folderPath) {
+		return [];
+	}
+	// use the files of the workspace folder so that the files of the tsconfig.json files outside of the selected folder are found
+	let runner = getTsLintRunner();
+	let runConfiguration = getRunConfiguration(settings);
+	let filePaths = await findWorkspaceFiles(folderPath, settings.jsEnable, tsconfigPath => runner.loadTypeScript(tsconfigPath, runConfiguration));
+	let uris = filePaths.map(each => Uri.file(each).toString());
+	if (params.folder) {
+		let prefix = params.folder.endsWith('/') ? params.folder : `${params.folder}/`;
+		uris = uris.filter(each => each.startsWith(prefix));
+	}
+	return uris;
+});
+
+interface BaselineEntriesParams {
+	uri: string;
+}
+
+namespace BaselineEntriesRequest {
+	// the baseline entries of the current failures of a file, null when the file is not linted
+	export const type = new server.RequestType<BaselineEntriesParams, BaselineEntry[] | null, void>('tslint/baselineEntries');
+}
+
+connection.onRequest(BaselineEntriesRequest.type, async (params) => {
+	let document = getDocumentOrFile(params.uri);
+	let settings = await settingsCache.get(params.uri);
+	if (!document || !settings || !settings.enable || !settings.workspaceFolderPath || Uri.parse(params.uri).scheme !== 'file') {
+		return null;
+	}
+	let fsPath = server.Files.uriToFilePath(params.uri)!;
+	if (isConfigFile(fsPath)) {
+		return null;
+	}
+	let result = await runLinter(fsPath, document.getText(), settings, settings.typeCheck);
+	if (result.failed) {
+		return null;
+	}
+	// the failures are recorded independent of the current baseline
+	let text = document.getText();
+	let file = getBaselineFile(settings.workspaceFolderPath, fsPath);
+	return getShownFailures(fsPath, result.lintResult.failures, settings).map(each => ({
+		file,
+		rule: each.getRuleName(),
+		fingerprint: getFailureFingerprint(text, each)
+	}));
+});
+
+interface WriteBaselineParams {
+	workspaceFolder: string;
+	// the entries of the files in the folder replace the existing entries, the whole baseline is replaced when undefined
+	folder?: string;
+	entries: BaselineEntry[];
+}
+
+namespace WriteBaselineRequest {
+	// the path of the written baseline
+	export const type = new server.RequestType<WriteBaselineParams, string, void>('tslint/writeBaseline');
+}
+
+connection.onRequest(WriteBaselineRequest.type, (params) => {
+	let workspaceFolderPath = server.Files.uriToFilePath(params.workspaceFolder)!;
+	let baselinePath = path.join(workspaceFolderPath, baselineFileName);
+	let entries = params.entries;
+	if (params.folder && fs.existsSync(baselinePath)) {
+		let existing = parseBaseline(fs.readFileSync(baselinePath, 'utf8'));
+		let folder = getBaselineFile(workspaceFolderPath, server.Files.uriToFilePath(params.folder)!);
+		entries = replaceBaselineEntries(existing ? existing.entries : [], folder, entries);
+	}
+	fs.writeFileSync(baselinePath, formatBaseline(entries));
+	return baselinePath;
 });
 
 function concatenateEdits(fixes: AutoFix[]): server.TextEdit[] {
@@ -768,4 +2237,18 @@ function concatenateEdits(fixes: AutoFix[]): server.TextEdit[] {
 	return textEdits;
 }
 
+namespace SarifRequest {
+	export const type = new server.RequestType0<SarifLog, void>('tslint/sarif');
+}
+
+connection.onRequest(SarifRequest.type, () => {
+	return createSarifLog(publishedProblems);
+});
+
+connection.onShutdown(() => {
+	if (isolatedRunner) {
+		isolatedRunner.dispose();
+	}
+});
+
 connection.listen();
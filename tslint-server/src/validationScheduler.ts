@@ -0,0 +1,120 @@
+import { CancellationToken, CancellationTokenSource } from 'vscode-languageserver/node';
+
+import { Delayer } from './delayer';
+
+/**
+ * Validates a document, the result of the validation is discarded when the token is cancelled
+ */
+export type Validation = (token: CancellationToken) => Promise<unknown>;
+
+/**
+ * Returns whether the result of validating a version of a document is outdated: the validation was cancelled or
+ * the current document has another version, e.g. since it was changed or opened while validating its file on disk
+ */
+export function isValidationOutdated(token: CancellationToken, version: number, current: { version: number }): boolean {
+	return token.isCancellationRequested || current.version !== version;
+}
+
+/**
+ * Schedules the validations of the documents. A validation waits for a delay so that a document that is changed
+ * often is validated once. A new validation of a document cancels its running validation.
+ */
+export class ValidationScheduler {
+	// the validations waiting for the delay, key is the URI of the document
+	private readonly delayed = new Map<string, { delayer: Delayer<void>, validation: Validation }>();
+	// the validations waiting for the delay or running, key is the URI of the document
+	private readonly pending = new Map<string, Promise<void>>();
+	// the cancellation of the running validations, key is the URI of the document
+	private readonly running = new Map<string, CancellationTokenSource>();
+
+	constructor(private readonly delay: number) { }
+
+	/**
+	 * Validates a document after the delay, the running validation of the document is cancelled
+	 */
+	public trigger(uri: string, validation: Validation): Promise<void> {
+		this.cancel(uri);
+		let delayed = this.delayed.get(uri);
+		if (delayed) {
+			delayed.validation = validation;
+		} else {
+			delayed = { delayer: new Delayer<void>(this.delay), validation };
+			this.delayed.set(uri, delayed);
+		}
+		let delayer = delayed.delayer;
+		let pending = delayer.trigger(() => this.runDelayed(uri, delayer));
+		this.pending.set(uri, pending);
+		let done = () => {
+			if (this.pending.get(uri) === pending) {
+				this.pending.delete(uri);
+			}
+		};
+		pending.then(done, done);
+		return pending;
+	}
+
+	/**
+	 * Validates a document now, the running validation of the document is cancelled
+	 */
+	public async run(uri: string, validation: Validation): Promise<void> {
+		this.cancel(uri);
+		let source = new CancellationTokenSource();
+		this.running.set(uri, source);
+		try {
+			await validation(source.token);
+		} finally {
+			if (this.running.get(uri) === source) {
+				this.running.delete(uri);
+				source.dispose();
+			}
+		}
+	}
+
+	/**
+	 * Cancels the running validation of a document
+	 */
+	public cancel(uri: string) {
+		let source = this.running.get(uri);
+		if (source) {
+			this.running.delete(uri);
+			source.cancel();
+			source.dispose();
+		}
+	}
+
+	/**
+	 * Returns the validation of a document that waits for the delay or is running
+	 */
+	public getPending(uri: string): Promise<void> | undefined {
+		return this.pending.get(uri);
+	}
+
+	/**
+	 * Validates a document now when a validation waits for the delay, otherwise waits for the running validation
+	 */
+	public async awaitValidation(uri: string): Promise<void> {
+		let delayed = this.delayed.get(uri);
+		if (delayed) {
+			return this.runDelayed(uri, delayed.delayer);
+		}
+		let pending = this.pending.get(uri);
+		if (pending) {
+			try {
+				await pending;
+			} catch {
+				// the error is reported by the caller of trigger
+			}
+		}
+	}
+
+	private async runDelayed(uri: string, delayer: Delayer<void>): Promise<void> {
+		let delayed = this.delayed.get(uri);
+		// the validation has run already when it was awaited before the delay ended
+		if (!delayed || delayed.delayer !== delayer) {
+			return;
+		}
+		// a validation triggered while validating uses a new delayer, so that it is not skipped
+		this.delayed.delete(uri);
+		await this.run(uri, delayed.validation);
+	}
+}
@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as typescript from 'typescript'; // this is a dev dependency only
+
+// Finds the files of a workspace folder that should be linted when linting the whole workspace
+
+const ignoredDirectories = ['node_modules', '.git'];
+
+function readdir(directory: string): Promise<string[]> {
+	return new Promise<string[]>((resolve) => {
+		fs.readdir(directory, (err, entries) => {
+			resolve(err ? [] : entries);
+		});
+	});
+}
+
+// the links are not followed, so that a link to a parent directory does not walk the directory again
+function lstat(filePath: string): Promise<fs.Stats | undefined> {
+	return new Promise<fs.Stats | undefined>((resolve) => {
+		fs.lstat(filePath, (err, stats) => {
+			resolve(err ? undefined : stats);
+		});
+	});
+}
+
+async function walk(directory: string, accept: (filePath: string) => boolean, result: string[]): Promise<void> {
+	for (let entry of await readdir(directory)) {
+		if (ignoredDirectories.indexOf(entry) !== -1) {
+			continue;
+		}
+		let entryPath = path.join(directory, entry);
+		let stats = await lstat(entryPath);
+		if (!stats || stats.isSymbolicLink()) {
+			continue;
+		}
+		if (stats.isDirectory()) {
+			await walk(entryPath, accept, result);
+		} else if (accept(entryPath)) {
+			result.push(entryPath);
+		}
+	}
+}
+
+export function isLintableFile(filePath: string, jsEnable: boolean): boolean {
+	if (/\.tsx?$/i.test(filePath)) {
+		return true;
+	}
+	return jsEnable && /\.jsx?$/i.test(filePath);
+}
+
+export function isInIgnoredDirectory(filePath: string): boolean {
+	return filePath.split(/[\\/]/).some(segment => ignoredDirectories.indexOf(segment) !== -1);
+}
+
+/**
+ * Returns the files covered by the tsconfig.json files inside the folder. When the folder
+ * has no tsconfig.json file or typescript cannot be loaded, all lintable files are returned.
+ */
+export async function findWorkspaceFiles(
+	folderPath: string,
+	jsEnable: boolean,
+	loadTypeScript: (tsconfigPath: string) => typeof typescript | undefined
+): Promise<string[]> {
+	let tsconfigFiles: string[] = [];
+	await walk(folderPath, each => path.basename(each) === 'tsconfig.json', tsconfigFiles);
+
+	let files = new Set<string>();
+	for (let tsconfigPath of tsconfigFiles) {
+		let ts = loadTypeScript(tsconfigPath);
+		if (!ts) {
+			continue;
+		}
+		for (let fileName of getProjectFileNames(ts, tsconfigPath)) {
+			if (isLintableFile(fileName, jsEnable)) {
+				files.add(path.normalize(fileName));
+			}
+		}
+	}
+	if (tsconfigFiles.length > 0 && files.size > 0) {
+		return Array.from(files);
+	}
+
+	let result: string[] = [];
+	await walk(folderPath, each => isLintableFile(each, jsEnable), result);
+	return result;
+}
+
+export function getProjectFileNames(ts: typeof typescript, tsconfigPath: string): string[] {
+	let configFile = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+	if (configFile.error) {
+		return [];
+	}
+	let parsed = ts.parseJsonConfigFileContent(configFile.config, ts.sys, path.dirname(tsconfigPath), undefined, tsconfigPath);
+	return parsed.fileNames;
+}
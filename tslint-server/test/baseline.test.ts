@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { applyBaseline, BaselineEntry, formatBaseline, getFingerprint, parseBaseline, replaceBaselineEntries } from '../src/baseline';
+
+// the failure of the rule at the first occurrence of `failing` in the text
+function fingerprint(text: string, failing: string, rule = 'no-console', message = 'Calls to console.log are not allowed.') {
+  let start = text.indexOf(failing);
+  return getFingerprint(text, { rule, message, start, end: start + failing.length });
+}
+
+function entry(file: string, rule: string, fingerprint: string): BaselineEntry {
+  return { file, rule, fingerprint };
+}
+
+describe('baseline', () => {
+  describe('getFingerprint()', () => {
+    it('does not depend on the line and the indentation of the failure', () => {
+      let original = fingerprint('let a = 1;\nconsole.log(a);\n', 'console.log');
+      assert.equal(fingerprint('// added\nlet a = 1;\n\nif (a) {\n    console.log(a);\n}\n', 'console.log'), original);
+      assert.equal(fingerprint('console.log(a);', 'console.log'), original);
+    });
+    it('depends on the rule, the message and the failing line', () => {
+      let original = fingerprint('console.log(a);\n', 'console.log');
+      assert.notEqual(fingerprint('console.log(b);\n', 'console.log'), original);
+      assert.notEqual(fingerprint('console.log(a);\n', 'console.log', 'no-any'), original);
+      assert.notEqual(fingerprint('console.log(a);\n', 'console.log', 'no-console', 'Other message.'), original);
+      assert.notEqual(fingerprint('console.log(a);\n', 'console'), original);
+    });
+  });
+  describe('applyBaseline()', () => {
+    it('hides the failures recorded in the baseline and returns the stale entries', () => {
+      let failures = [{ rule: 'no-console', fingerprint: 'a' }, { rule: 'no-console', fingerprint: 'a' }, { rule: 'semicolon', fingerprint: 'b' }];
+      let entries = [entry('a.ts', 'no-console', 'a'), entry('a.ts', 'semicolon', 'c'), entry('a.ts', 'no-any', 'b')];
+      let { shown, stale } = applyBaseline(entries, failures, each => each);
+      assert.deepEqual(shown, [failures[1], failures[2]]);
+      assert.deepEqual(stale, [entries[1], entries[2]]);
+    });
+  });
+  describe('formatBaseline()', () => {
+    it('sorts the entries', () => {
+      let text = formatBaseline([entry('b.ts', 'semicolon', '1'), entry('a.ts', 'semicolon', '2'), entry('a.ts', 'no-console', '3')]);
+      assert.deepEqual(parseBaseline(text), {
+        version: 1,
+        entries: [entry('a.ts', 'no-console', '3'), entry('a.ts', 'semicolon', '2'), entry('b.ts', 'semicolon', '1')]
+      });
+      assert.ok(text.endsWith('\n'));
+    });
+  });
+  describe('parseBaseline()', () => {
+    it('ignores invalid contents and entries', () => {
+      assert.equal(parseBaseline('{ "entries": '), undefined);
+      assert.equal(parseBaseline('[]'), undefined);
+      assert.deepEqual(parseBaseline('{ "version": 1, "entries": [{ "file": "a.ts" }, { "file": "a.ts", "rule": "x", "fingerprint": "1" }] }'), {
+        version: 1,
+        entries: [entry('a.ts', 'x', '1')]
+      });
+    });
+  });
+  describe('replaceBaselineEntries()', () => {
+    it('replaces the entries of the files in the folder', () => {
+      let existing = [entry('src/a.ts', 'semicolon', '1'), entry('src2/b.ts', 'semicolon', '2'), entry('c.ts', 'semicolon', '3')];
+      assert.deepEqual(replaceBaselineEntries(existing, 'src', [entry('src/d.ts', 'no-any', '4')]), [existing[1], existing[2], entry('src/d.ts', 'no-any', '4')]);
+      assert.deepEqual(replaceBaselineEntries(existing, '', []), []);
+    });
+  });
+});
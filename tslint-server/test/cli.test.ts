@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseCommandLine } from '../src/cli';
+
+// the tslint library of the tests is installed in the node_modules of the server
+const nodePath = path.resolve(__dirname, '..', '..', '..', 'node_modules');
+
+function runCli(args: string[], cwd: string): { status: number | null, stdout: string, stderr: string } {
+  let result = cp.spawnSync(process.execPath, [require.resolve('../src/cli'), ...args], { cwd, encoding: 'utf8' });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+describe('cli', () => {
+  describe('parseCommandLine()', () => {
+    it('maps the options to the run configuration', () => {
+      let commandLine = parseCommandLine(['--config', 'tslint.json', '--rules-dir', 'a', '--rules-dir', 'b', '--exclude', '**/*.d.ts', '--js', '--verbose', 'src']);
+      assert.deepEqual(commandLine.paths, [path.resolve('src')]);
+      assert.ok(commandLine.verbose);
+      assert.equal(commandLine.configuration.configFile, path.resolve('tslint.json'));
+      assert.deepEqual(commandLine.configuration.rulesDirectory, [path.resolve('a'), path.resolve('b')]);
+      assert.deepEqual(commandLine.configuration.exclude, ['**/*.d.ts']);
+      assert.equal(commandLine.configuration.jsEnable, true);
+      assert.equal(commandLine.configuration.ignoreDefinitionFiles, true);
+      assert.equal(commandLine.configuration.traceLevel, 'verbose');
+      assert.equal(commandLine.configuration.workspaceFolderPath, process.cwd());
+    });
+    it('rejects invalid command lines', () => {
+      assert.throws(() => parseCommandLine([]), /No files or folders/);
+      assert.throws(() => parseCommandLine(['--unknown', 'a.ts']), /Unknown option --unknown/);
+      assert.throws(() => parseCommandLine(['a.ts', '--config']), /Missing value for the option --config/);
+      assert.throws(() => parseCommandLine(['--package-manager', 'pnpm', 'a.ts']), /Invalid package manager 'pnpm'/);
+    });
+  });
+  describe('main', function () {
+    this.timeout(20000);
+    let folder: string;
+    beforeEach(() => {
+      folder = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'tslint-cli-')));
+      fs.writeFileSync(path.join(folder, 'a.ts'), 'let a = 1\n');
+      fs.writeFileSync(path.join(folder, 'b.ts'), 'let b = 1;\n');
+    });
+    afterEach(() => {
+      fs.readdirSync(folder).forEach(each => fs.unlinkSync(path.join(folder, each)));
+      fs.rmdirSync(folder);
+    });
+
+    it('writes the failures as JSON and exits with 2 when there are errors', () => {
+      fs.writeFileSync(path.join(folder, 'tslint.json'), JSON.stringify({ rules: { semicolon: true } }));
+      let result = runCli(['--node-path', nodePath, '.'], folder);
+      assert.equal(result.status, 2, result.stderr);
+      let output = JSON.parse(result.stdout);
+      assert.equal(output.fileCount, 2);
+      assert.equal(output.errorCount, 1);
+      assert.equal(output.warningCount, 0);
+      assert.equal(output.results.length, 1);
+      assert.equal(output.results[0].filePath, path.join(folder, 'a.ts'));
+      assert.equal(output.results[0].failures[0].ruleName, 'semicolon');
+      assert.equal(output.results[0].failures[0].startPosition.line, 0);
+    });
+    it('exits with 0 when there are only warnings', () => {
+      fs.writeFileSync(path.join(folder, 'tslint.json'), JSON.stringify({ defaultSeverity: 'warning', rules: { semicolon: true } }));
+      let result = runCli(['--node-path', nodePath, 'a.ts'], folder);
+      assert.equal(result.status, 0, result.stderr);
+      let output = JSON.parse(result.stdout);
+      assert.equal(output.fileCount, 1);
+      assert.equal(output.warningCount, 1);
+    });
+    it('exits with 1 and prints the usage for an invalid command line', () => {
+      let result = runCli(['--unknown'], folder);
+      assert.equal(result.status, 1);
+      assert.equal(result.stdout, '');
+      assert.ok(/Unknown option --unknown/.test(result.stderr));
+      assert.ok(/Usage: node cli\.js/.test(result.stderr));
+    });
+  });
+});
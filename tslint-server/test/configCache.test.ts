@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { ConfigCache, Configuration } from '../src/configCache';
+
+function configuration(configPath: string, dependencies: string[] | undefined): Configuration {
+  return {
+    linterConfiguration: undefined,
+    isDefaultLinterConfig: false,
+    path: configPath,
+    dependencies
+  };
+}
+
+describe('ConfigCache', () => {
+  describe('invalidate()', () => {
+    it('keeps configurations for different files', () => {
+      let cache = new ConfigCache();
+      cache.set('/a/tslint.json', configuration('/a/tslint.json', []));
+      cache.set('/b/tslint.json', configuration('/b/tslint.json', []));
+      assert.ok(cache.get('/a/tslint.json'));
+      assert.ok(cache.get('/b/tslint.json'));
+    });
+    it('removes the configurations extending a changed file', () => {
+      let cache = new ConfigCache();
+      cache.set('/a/tslint.json', configuration('/a/tslint.json', ['/base/tslint.json']));
+      cache.set('/b/tslint.json', configuration('/b/tslint.json', ['/other/tslint.json', '/base/tslint.json']));
+      cache.set('/c/tslint.json', configuration('/c/tslint.json', ['/other/tslint.json']));
+      cache.invalidate('/base/tslint.json');
+      assert.equal(cache.get('/a/tslint.json'), undefined);
+      assert.equal(cache.get('/b/tslint.json'), undefined);
+      assert.ok(cache.get('/c/tslint.json'));
+    });
+    it('removes a changed configuration', () => {
+      let cache = new ConfigCache();
+      cache.set('/a/tslint.json', configuration('/a/tslint.json', []));
+      cache.set('/b/tslint.json', configuration('/b/tslint.json', []));
+      cache.invalidate('/a/tslint.json');
+      assert.equal(cache.get('/a/tslint.json'), undefined);
+      assert.ok(cache.get('/b/tslint.json'));
+    });
+    it('removes configurations with unknown dependencies', () => {
+      let cache = new ConfigCache();
+      cache.set('/a/file.ts', configuration('/a/tslint.json', undefined));
+      cache.invalidate('/b/tslint.json');
+      assert.equal(cache.get('/a/file.ts'), undefined);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import { IRuleMetadata } from 'tslint';
+import { AvailableRule, findConfigRuleReference, getConfigCompletions, parseConfigDocument, validateConfigDocument } from '../src/configDocument';
+
+function metadata(ruleName: string, options: any, optionExamples: any[] = [true]): IRuleMetadata {
+  return { ruleName, type: 'style', description: `The ${ruleName} rule.`, optionsDescription: '', options, optionExamples, typescriptOnly: false };
+}
+
+const rules: AvailableRule[] = [
+  { ruleName: 'quotemark', metadata: metadata('quotemark', { type: 'array', items: { type: 'string', enum: ['single', 'double'] } }, [[true, 'single']]) },
+  {
+    ruleName: 'semicolon', metadata: metadata('semicolon', {
+      type: 'array', items: [{ type: 'string', enum: ['always', 'never'] }, { type: 'string', enum: ['ignore-interfaces'] }], additionalItems: false
+    })
+  },
+  {
+    ruleName: 'max-line-length', metadata: metadata('max-line-length', {
+      type: 'array',
+      items: { oneOf: [{ type: 'number' }, { type: 'object', properties: { 'limit': { type: 'number' }, 'ignore-pattern': { type: 'string' } }, additionalProperties: false }] }
+    })
+  },
+  { ruleName: 'no-console', metadata: metadata('no-console', { type: 'array', items: { type: 'string' } }) },
+  { ruleName: 'my-custom' }
+];
+
+// the text of a document and the offset marked with `|`
+function parse(text: string, yaml = false) {
+  let offset = text.indexOf('|');
+  return { document: parseConfigDocument(text.replace('|', ''), yaml), offset };
+}
+
+function complete(text: string, yaml = false) {
+  let { document, offset } = parse(text, yaml);
+  return getConfigCompletions(document, offset, rules).map(each => ({ label: each.label, insertText: each.insertText, replaced: document.text.substring(each.start, each.end) }));
+}
+
+function validate(text: string, yaml = false) {
+  let document = parseConfigDocument(text, yaml);
+  return validateConfigDocument(document, rules).map(each => ({ text: text.substring(each.start, each.end), message: each.message }));
+}
+
+describe('configDocument', () => {
+  describe('getConfigCompletions()', () => {
+    it('completes the rule names that are not configured', () => {
+      let completions = complete('{ "rules": { "semicolon": true, "q|" } }');
+      assert.deepEqual(completions.map(each => each.label), ['quotemark', 'max-line-length', 'no-console', 'my-custom']);
+      assert.deepEqual(completions[0], { label: 'quotemark', insertText: '"quotemark": true', replaced: '"q"' });
+      assert.deepEqual(complete('{ "jsRules": { "semicolon|": [true] } }')[1], { label: 'semicolon', insertText: '"semicolon"', replaced: '"semicolon"' });
+      assert.deepEqual(complete('{ "linterOptions": { "|" } }'), []);
+    });
+    it('completes the configuration of a rule', () => {
+      assert.deepEqual(complete('{ "rules": { "quotemark": | } }').map(each => each.insertText), ['true', 'false', '[true,"single"]']);
+      assert.deepEqual(complete('{ "rules": { "quotemark": [true, |] } }').map(each => each.insertText), ['"single"', '"double"']);
+      assert.deepEqual(complete('{ "rules": { "semicolon": [true, "always", "|"] } }'), [{ label: '"ignore-interfaces"', insertText: '"ignore-interfaces"', replaced: '""' }]);
+      assert.deepEqual(complete('{ "rules": { "semicolon": { "severity": "|" } } }').map(each => each.label), ['"default"', '"error"', '"warning"', '"off"']);
+      assert.deepEqual(complete('{ "rules": { "semicolon": { "options": [|] } } }').map(each => each.label), ['"always"', '"never"']);
+      assert.deepEqual(complete('{ "rules": { "semicolon": { "options": |, "severity": "off" } } }').map(each => each.label), ['"always"', '"never"']);
+    });
+    it('completes the properties of the configuration of a rule', () => {
+      assert.deepEqual(complete('{ "rules": { "semicolon": { "|" } } }').map(each => each.insertText), ['"severity": ', '"options": ']);
+      assert.deepEqual(complete('{ "rules": { "max-line-length": [true, { "|": 80 }] } }').map(each => each.insertText), ['"limit"', '"ignore-pattern"']);
+    });
+    it('completes the configuration in YAML', () => {
+      let completions = complete('rules:\n  semicolon: true\n  q|\n', true);
+      assert.deepEqual(completions[0], { label: 'quotemark', insertText: 'quotemark: true', replaced: 'q' });
+      assert.deepEqual(complete('rules:\n  semicolon:\n    severity: warning\n  |', true).map(each => each.label), ['quotemark', 'max-line-length', 'no-console', 'my-custom']);
+      assert.deepEqual(complete('rules:\n  semicolon:\n    |', true).map(each => each.label), ['severity', 'options']);
+      assert.deepEqual(complete('rules:\n  semicolon:\n    severity: |', true).map(each => each.label), ['default', 'error', 'warning', 'off']);
+      assert.deepEqual(complete('rules:\n  quotemark: [true, |]\n', true).map(each => each.label), ['single', 'double']);
+      assert.deepEqual(complete('rules:\n  quotemark:\n    - true\n    - d|\n', true), [
+        { label: 'single', insertText: 'single', replaced: 'd' },
+        { label: 'double', insertText: 'double', replaced: 'd' }
+      ]);
+    });
+  });
+  describe('findConfigRuleReference()', () => {
+    it('finds the rule names', () => {
+      let { document, offset } = parse('{ "rules": { "semi|colon": true }, "extends": "tslint:recommended" }');
+      assert.deepEqual(findConfigRuleReference(document, offset), { ruleName: 'semicolon', start: 13, end: 24 });
+      assert.equal(findConfigRuleReference(document, document.text.indexOf('recommended')), undefined);
+      let yaml = parse('jsRules:\n  no-con|sole: true\n', true);
+      assert.deepEqual(findConfigRuleReference(yaml.document, yaml.offset), { ruleName: 'no-console', start: 11, end: 21 });
+    });
+  });
+  describe('validateConfigDocument()', () => {
+    it('reports unknown rules that are enabled', () => {
+      assert.deepEqual(validate('{ "rules": { "semicolon": true, "quotmark": true, "no-foo": false, "no-bar": { "severity": "off" } } }'), [
+        { text: '"quotmark"', message: 'Could not find the implementation of the rule "quotmark".' }
+      ]);
+      assert.deepEqual(validateConfigDocument(parseConfigDocument('{ "rules": { "quotmark": true } }', false), undefined), []);
+    });
+    it('reports configurations with the wrong shape', () => {
+      assert.deepEqual(validate('{ "rules": { "semicolon": "always", "quotemark": ["single"], "no-console": { "severity": "fatal", "level": 1 } } }'), [
+        { text: '"always"', message: 'Expected true or false, an array or an object.' },
+        { text: '"single"', message: 'The first element must be true or false, the rule is disabled otherwise.' },
+        { text: '"fatal"', message: 'Expected one of "default", "error", "warning", "off".' },
+        { text: '"level"', message: 'Unknown property "level", expected "severity" or "options".' }
+      ]);
+    });
+    it('validates the options against the schema of the rule', () => {
+      assert.deepEqual(validate('{ "rules": { "quotemark": [true, "singel"], "semicolon": [true, "always", "ignore-interfaces", "x"], "no-console": [true, 1] } }'), [
+        { text: '"singel"', message: 'Expected one of "single", "double".' },
+        { text: '"x"', message: 'Unexpected value, at most 2 values are allowed.' },
+        { text: '1', message: 'Expected a string.' }
+      ]);
+      assert.deepEqual(validate('{ "rules": { "max-line-length": { "options": [120, { "limit": "1", "ignore": "" }, false] } } }'), [
+        { text: '"1"', message: 'Expected a number.' },
+        { text: '"ignore"', message: 'Unknown property "ignore".' }
+      ]);
+      assert.deepEqual(validate('{ "rules": { "semicolon": { "options": "sometimes" }, "my-custom": [true, 1] } }'), [
+        { text: '"sometimes"', message: 'Expected one of "always", "never".' }
+      ]);
+    });
+    it('validates YAML documents', () => {
+      assert.deepEqual(validate('rules:\n  quotemark: [true, singel]\n  quotmark:\n    severity: warning\n', true), [
+        { text: 'singel', message: 'Expected one of "single", "double".' },
+        { text: 'quotmark', message: 'Could not find the implementation of the rule "quotmark".' }
+      ]);
+    });
+  });
+});
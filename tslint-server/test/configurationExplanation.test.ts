@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { formatConfigurationExplanation } from '../src/configurationExplanation';
+
+describe('formatConfigurationExplanation()', () => {
+  it('formats the extended configurations and the origin of the rules', () => {
+    let markdown = formatConfigurationExplanation({
+      filePath: '/ws/src/a.ts',
+      configFilePath: '/ws/tslint.json',
+      configFile: {
+        path: '/ws/tslint.json', ruleNames: ['semicolon', 'no-unused-variable'], jsRuleNames: [], extends: [
+          { path: '/ws/base.json', ruleNames: ['semicolon'], jsRuleNames: [], extends: [] },
+          { path: '/lib/recommended.js', ruleNames: ['semicolon', 'no-console'], jsRuleNames: [], extends: [] }
+        ]
+      },
+      rules: [
+        { ruleName: 'semicolon', options: { ruleSeverity: 'warning', ruleArguments: ['always'] }, configuredIn: ['/ws/base.json', '/lib/recommended.js', '/ws/tslint.json'] },
+        { ruleName: 'no-console', options: { ruleSeverity: 'error', ruleArguments: ['log|warn'] }, configuredIn: ['/lib/recommended.js'] }
+      ],
+      noUnusedVariableRemovedFrom: ['/ws/tslint.json'],
+      exclude: ['/ws/gen/**']
+    }, '/ws');
+    assert.ok(markdown.startsWith('# Configuration of `src/a.ts`\n\n## Configuration file\n\nThe configuration is loaded from `tslint.json`.'));
+    assert.ok(markdown.indexOf('- `tslint.json`\n  - `base.json`\n  - `/lib/recommended.js`\n') !== -1);
+    assert.ok(markdown.indexOf('| `no-console` | error | `["log\\|warn"]` | `/lib/recommended.js` |\n| `semicolon` | warning | `["always"]` | `tslint.json`, overrides `/lib/recommended.js`, `base.json` |') !== -1);
+    assert.ok(markdown.indexOf('The rule is configured in `tslint.json`, it is removed') !== -1);
+    assert.ok(markdown.endsWith('- `/ws/gen/**`'));
+  });
+  it('formats the default configuration and files that are not linted', () => {
+    let markdown = formatConfigurationExplanation({ filePath: '/ws/a.js', rules: [], noUnusedVariableRemovedFrom: [], exclude: [], notLinted: 'Not linted.' });
+    assert.ok(markdown.startsWith('# Configuration of `/ws/a.js`\n\n**The file is not linted.** Not linted.\n\n'));
+    assert.ok(markdown.indexOf('No configuration file was found, the default configuration of tslint is used.') !== -1);
+    assert.ok(markdown.indexOf('No rules are configured.') !== -1);
+  });
+  it('formats the errors', () => {
+    assert.equal(formatConfigurationExplanation({ filePath: '/ws/a.ts', rules: [], noUnusedVariableRemovedFrom: [], exclude: [], error: 'Invalid.' }, '/ws'),
+      '# Configuration of `a.ts`\n\nInvalid.');
+  });
+});
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { diffLines, diffText, splitLines, TextChange } from '../src/diff';
+
+function apply(original: string, changes: TextChange[]): string {
+  let result = original;
+  for (let change of changes.slice().reverse()) {
+    result = result.substring(0, change.start) + change.text + result.substring(change.end);
+  }
+  return result;
+}
+
+describe('diff', () => {
+  describe('splitLines()', () => {
+    it('keeps the line terminators', () => {
+      assert.deepEqual(splitLines('a\nb\r\nc'), ['a\n', 'b\r\n', 'c']);
+      assert.deepEqual(splitLines('a\n\n'), ['a\n', '\n']);
+      assert.deepEqual(splitLines(''), []);
+    });
+  });
+  describe('diffLines()', () => {
+    it('returns no changes for the same lines', () => {
+      assert.deepEqual(diffLines(['a', 'b'], ['a', 'b']), []);
+    });
+    it('returns the changed lines', () => {
+      assert.deepEqual(diffLines(['a', 'b', 'c', 'd'], ['a', 'x', 'c', 'd', 'e']), [
+        { originalStart: 1, originalEnd: 2, modifiedStart: 1, modifiedEnd: 2 },
+        { originalStart: 4, originalEnd: 4, modifiedStart: 4, modifiedEnd: 5 }
+      ]);
+    });
+    it('returns inserted and deleted lines', () => {
+      assert.deepEqual(diffLines(['a', 'b', 'c'], ['b', 'c', 'b']), [
+        { originalStart: 0, originalEnd: 1, modifiedStart: 0, modifiedEnd: 0 },
+        { originalStart: 3, originalEnd: 3, modifiedStart: 2, modifiedEnd: 3 }
+      ]);
+    });
+  });
+  describe('diffText()', () => {
+    it('replaces the changed lines only', () => {
+      let original = 'import b;\nimport a;\nlet x = [1, 2]\nlet y = 1\n';
+      let modified = 'import a;\nimport b;\nlet x = [1, 2];\nlet y = 1;\n';
+      let changes = diffText(original, modified);
+      assert.equal(apply(original, changes), modified);
+    });
+    it('keeps the unchanged lines between the changes', () => {
+      let original = 'a\nb\nc\nd\ne\n';
+      let modified = 'a;\nb\nc\nd\ne;\n';
+      let changes = diffText(original, modified);
+      assert.deepEqual(changes, [
+        { start: 0, end: 2, text: 'a;\n' },
+        { start: 8, end: 10, text: 'e;\n' }
+      ]);
+      assert.equal(apply(original, changes), modified);
+    });
+    it('handles a missing line terminator at the end', () => {
+      let original = 'a\nb';
+      let modified = 'a\nb;';
+      assert.equal(apply(original, diffText(original, modified)), modified);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import * as assert from 'assert';
+import {
+  createDisableFileEdit, createDisableLineEdit, createDisableNextLineEdit, createDisableSelectionEdits, createRemoveCommentEdit, createRemoveRulesEdit,
+  findUnusedDisableComments, getRuleNameReferences, parseDisableComments
+} from '../src/disableComments';
+import { TSLintAutofixEdit } from '../src/fixer';
+
+function apply(lines: string[], edits: TSLintAutofixEdit[]): string[] {
+  let text = lines.join('\n');
+  let offset = (line: number, character: number) => lines.slice(0, line).reduce((sum, each) => sum + each.length + 1, 0) + character;
+  for (let edit of edits.slice().reverse()) {
+    let start = offset(edit.range[0].line, edit.range[0].character);
+    let end = offset(edit.range[1].line, edit.range[1].character);
+    text = text.substring(0, start) + edit.text + text.substring(end);
+  }
+  return text.split('\n');
+}
+
+describe('disableComments', () => {
+  describe('parseDisableComments()', () => {
+    it('parses the rules of a comment', () => {
+      let comments = parseDisableComments('  // tslint:disable-next-line:no-console  no-empty ');
+      assert.equal(comments.length, 1);
+      assert.equal(comments[0].kind, 'disable');
+      assert.equal(comments[0].modifier, 'next-line');
+      assert.deepEqual(comments[0].rules, ['no-console', 'no-empty']);
+      assert.equal(comments[0].start, 2);
+      assert.equal(comments[0].rulesStart, 30);
+      assert.equal(comments[0].rulesEnd, 50);
+    });
+    it('parses block comments', () => {
+      let comments = parseDisableComments('foo(); /* tslint:enable:semicolon */');
+      assert.equal(comments.length, 1);
+      assert.equal(comments[0].kind, 'enable');
+      assert.equal(comments[0].modifier, '');
+      assert.deepEqual(comments[0].rules, ['semicolon']);
+      assert.equal(comments[0].rulesEnd, 33);
+    });
+    it('parses comments without rules', () => {
+      let comments = parseDisableComments('// tslint:disable');
+      assert.deepEqual(comments[0].rules, []);
+      assert.equal(comments[0].rulesEnd, undefined);
+      assert.deepEqual(parseDisableComments('// tslint:disable:all')[0].rules, []);
+    });
+    it('parses the list of comments without rules', () => {
+      let comments = parseDisableComments('foo(); /* tslint:disable-line: */');
+      assert.equal(comments[0].listStart, 30);
+      assert.equal(comments[0].listEnd, 31);
+      assert.equal(parseDisableComments('// tslint:disable')[0].listStart, undefined);
+    });
+    it('ignores comments in strings and other comments', () => {
+      assert.deepEqual(parseDisableComments('let s = "// tslint:disable";'), []);
+      assert.deepEqual(parseDisableComments('// see tslint:disable'), []);
+      assert.deepEqual(parseDisableComments('// tslint:disabled'), []);
+    });
+  });
+  describe('getRuleNameReferences()', () => {
+    it('returns the rule names with their positions', () => {
+      let references = getRuleNameReferences('a(); /* tslint:disable-line:semicolon */ // tslint:enable:no-console  no-empty');
+      assert.deepEqual(references.map(each => [each.name, each.start, each.end, each.comment.kind]), [
+        ['semicolon', 28, 37, 'disable'],
+        ['no-console', 58, 68, 'enable'],
+        ['no-empty', 70, 78, 'enable']
+      ]);
+    });
+  });
+  describe('createDisableNextLineEdit()', () => {
+    it('inserts a comment with the indentation of the line', () => {
+      let lines = ['if (a) {', '    foo()', '}'];
+      assert.deepEqual(apply(lines, [createDisableNextLineEdit(lines, 1, 'semicolon', '\n')]), [
+        'if (a) {', '    // tslint:disable-next-line:semicolon', '    foo()', '}'
+      ]);
+    });
+    it('adds the rule to a comment on the previous line', () => {
+      let lines = ['    // tslint:disable-next-line:no-console', '    console.log("a")'];
+      assert.deepEqual(apply(lines, [createDisableNextLineEdit(lines, 1, 'quotemark', '\n')]), [
+        '    // tslint:disable-next-line:no-console quotemark', '    console.log("a")'
+      ]);
+    });
+    it('does not add the rule to a trailing comment on the previous line', () => {
+      let lines = ['foo(); // tslint:disable-next-line:no-console', 'bar()'];
+      assert.deepEqual(apply(lines, [createDisableNextLineEdit(lines, 1, 'semicolon', '\n')]), [
+        'foo(); // tslint:disable-next-line:no-console', '// tslint:disable-next-line:semicolon', 'bar()'
+      ]);
+    });
+  });
+  describe('createDisableLineEdit()', () => {
+    it('appends a comment to the line', () => {
+      let lines = ['foo()  '];
+      assert.deepEqual(apply(lines, [createDisableLineEdit(lines, 0, 'semicolon')]), ['foo() // tslint:disable-line:semicolon']);
+    });
+    it('adds the rule to a comment of the line', () => {
+      let lines = ['console.log("a") // tslint:disable-line:no-console'];
+      assert.deepEqual(apply(lines, [createDisableLineEdit(lines, 0, 'quotemark')]), ['console.log("a") // tslint:disable-line:no-console quotemark']);
+    });
+    it('inserts a block comment before a line comment', () => {
+      let lines = ['foo() // call foo'];
+      assert.deepEqual(apply(lines, [createDisableLineEdit(lines, 0, 'semicolon')]), ['foo() /* tslint:disable-line:semicolon */ // call foo']);
+    });
+  });
+  describe('createDisableFileEdit()', () => {
+    it('inserts a comment at the beginning of the file', () => {
+      let lines = ['import * as fs from "fs";'];
+      assert.deepEqual(apply(lines, [createDisableFileEdit(lines, 'quotemark', '\n')]), ['/* tslint:disable:quotemark */', 'import * as fs from "fs";']);
+    });
+    it('inserts a comment after a shebang', () => {
+      let lines = ['#!/usr/bin/env node', 'foo()'];
+      assert.deepEqual(apply(lines, [createDisableFileEdit(lines, 'semicolon', '\n')]), ['#!/usr/bin/env node', '/* tslint:disable:semicolon */', 'foo()']);
+    });
+    it('adds the rule to a comment in the header of the file', () => {
+      let lines = ['/*', ' * Copyright', ' */', '/* tslint:disable:no-console */', '', 'foo()'];
+      assert.deepEqual(apply(lines, [createDisableFileEdit(lines, 'semicolon', '\n')]), [
+        '/*', ' * Copyright', ' */', '/* tslint:disable:no-console semicolon */', '', 'foo()'
+      ]);
+    });
+    it('does not add the rule to a comment after the first line of code', () => {
+      let lines = ['foo()', '/* tslint:disable:no-console */'];
+      assert.deepEqual(apply(lines, [createDisableFileEdit(lines, 'semicolon', '\n')]), [
+        '/* tslint:disable:semicolon */', 'foo()', '/* tslint:disable:no-console */'
+      ]);
+    });
+  });
+  describe('createDisableSelectionEdits()', () => {
+    it('wraps the lines with comments', () => {
+      let lines = ['a()', '  b()', '  c()', 'd()'];
+      assert.deepEqual(apply(lines, createDisableSelectionEdits(lines, 1, 2, ['semicolon', 'no-console'], '\n')), [
+        'a()', '  // tslint:disable:semicolon no-console', '  b()', '  c()', '  // tslint:enable:semicolon no-console', 'd()'
+      ]);
+    });
+    it('wraps the last line', () => {
+      let lines = ['a()', 'b()'];
+      assert.deepEqual(apply(lines, createDisableSelectionEdits(lines, 1, 1, ['semicolon'], '\n')), [
+        'a()', '// tslint:disable:semicolon', 'b()', '// tslint:enable:semicolon'
+      ]);
+    });
+  });
+  describe('findUnusedDisableComments()', () => {
+    function unused(lines: string[], failures: [string, number, number][]) {
+      let text = lines.join('\n');
+      let offset = (line: number, character: number) => lines.slice(0, line).reduce((sum, each) => sum + each.length + 1, 0) + character;
+      let suppressed = failures.map(([ruleName, line, character]) => ({ ruleName, start: offset(line, character), end: offset(line, character + 1) }));
+      return findUnusedDisableComments(text, suppressed).map(each => [each.line, each.unused, each.unusedRules]);
+    }
+    it('reports comments that do not disable a failure', () => {
+      let lines = ['// tslint:disable-next-line:semicolon', 'a()', '// tslint:disable-next-line:semicolon', 'b();', 'c() // tslint:disable-line'];
+      assert.deepEqual(unused(lines, [['semicolon', 1, 3]]), [[2, true, ['semicolon']], [4, true, []]]);
+    });
+    it('reports the rule names that do not disable a failure', () => {
+      let lines = ['a() // tslint:disable-line:semicolon no-console quotemark'];
+      assert.deepEqual(unused(lines, [['no-console', 0, 0]]), [[0, false, ['semicolon', 'quotemark']]]);
+    });
+    it('reports comments that disable a rule that is already disabled', () => {
+      let lines = ['/* tslint:disable:semicolon */', 'a()', 'b() // tslint:disable-line:semicolon'];
+      assert.deepEqual(unused(lines, [['semicolon', 1, 3], ['semicolon', 2, 3]]), [[2, true, ['semicolon']]]);
+    });
+    it('ends the disabled interval at a comment that enables the rule', () => {
+      let lines = ['// tslint:disable:semicolon', 'a()', '// tslint:enable:semicolon', '// tslint:disable:semicolon', 'b()'];
+      assert.deepEqual(unused(lines, [['semicolon', 1, 3]]), [[3, true, ['semicolon']]]);
+      assert.deepEqual(unused(lines, [['semicolon', 1, 3], ['semicolon', 4, 3]]), []);
+    });
+    it('keeps the rule disabled after a line that enables the rule', () => {
+      let lines = ['// tslint:disable:semicolon', 'a() // tslint:enable-line:semicolon', 'b()'];
+      assert.deepEqual(unused(lines, [['semicolon', 2, 3]]), []);
+    });
+    it('ignores comments with a colon but without rule names', () => {
+      assert.deepEqual(unused(['a() // tslint:disable-line:'], []), []);
+    });
+  });
+  describe('createRemoveCommentEdit()', () => {
+    it('removes the line of a comment', () => {
+      let lines = ['// tslint:disable-next-line:semicolon', 'a()'];
+      assert.deepEqual(apply(lines, [createRemoveCommentEdit(lines, 0, parseDisableComments(lines[0])[0])]), ['a()']);
+    });
+    it('removes a trailing comment', () => {
+      let lines = ['a()  // tslint:disable-line', 'b()'];
+      assert.deepEqual(apply(lines, [createRemoveCommentEdit(lines, 0, parseDisableComments(lines[0])[0])]), ['a()', 'b()']);
+    });
+    it('removes a comment followed by code', () => {
+      let lines = ['/* tslint:disable-line */ a()'];
+      assert.deepEqual(apply(lines, [createRemoveCommentEdit(lines, 0, parseDisableComments(lines[0])[0])]), ['a()']);
+    });
+  });
+  describe('createRemoveRulesEdit()', () => {
+    it('removes rule names from a comment', () => {
+      let lines = ['a() // tslint:disable-line:semicolon no-console quotemark'];
+      assert.deepEqual(apply(lines, [createRemoveRulesEdit(lines, 0, parseDisableComments(lines[0])[0], ['semicolon', 'quotemark'])]), [
+        'a() // tslint:disable-line:no-console'
+      ]);
+      assert.deepEqual(apply(lines, [createRemoveRulesEdit(lines, 0, parseDisableComments(lines[0])[0], ['semicolon', 'quotemark', 'no-console'])]), ['a()']);
+    });
+  });
+});
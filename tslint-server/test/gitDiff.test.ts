@@ -0,0 +1,120 @@
+import * as assert from 'assert';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { computeChangedLines, getBaseContents, getGitDirectories, isRepositoryStateFile, touchesChangedLines } from '../src/gitDiff';
+
+const base = [
+  'let a = 1;',
+  'let b = 2;',
+  'function f() {',
+  '}',
+  'removed();',
+  'removed();',
+  'last();',
+  ''
+].join('\n');
+
+const contents = [
+  'let a = 1;',
+  'let b = 3;',
+  'function f() {',
+  '    one();',
+  '    two();',
+  '}',
+  'last();',
+  ''
+].join('\r\n');
+
+describe('gitDiff', () => {
+  describe('computeChangedLines()', () => {
+    it('returns the zero based changed lines of the contents', () => {
+      assert.deepEqual(computeChangedLines(base, contents), [{ start: 1, end: 2 }, { start: 3, end: 5 }, { start: 5, end: 7 }]);
+      assert.deepEqual(computeChangedLines(contents, contents), []);
+    });
+    it('treats all lines as changed when the file does not exist in the base', () => {
+      assert.equal(computeChangedLines(undefined, contents), 'all');
+    });
+  });
+  describe('touchesChangedLines()', () => {
+    it('checks whether a range of lines overlaps a changed line', () => {
+      let changedLines = computeChangedLines(base, contents);
+      assert.ok(touchesChangedLines(changedLines, 1, 1));
+      assert.ok(touchesChangedLines(changedLines, 0, 1));
+      assert.ok(touchesChangedLines(changedLines, 2, 3));
+      assert.ok(!touchesChangedLines(changedLines, 2, 2));
+      assert.ok(!touchesChangedLines(changedLines, 7, 8));
+      assert.ok(touchesChangedLines('all', 100, 100));
+    });
+  });
+  describe('isRepositoryStateFile()', () => {
+    const gitDirectory = path.resolve('repo', '.git');
+    it('matches the HEAD, the refs and the index of a repository', () => {
+      assert.ok(isRepositoryStateFile(path.join(gitDirectory, 'HEAD'), gitDirectory));
+      assert.ok(isRepositoryStateFile(path.join(gitDirectory, 'index'), gitDirectory));
+      assert.ok(isRepositoryStateFile(path.join(gitDirectory, 'refs', 'heads', 'main'), gitDirectory));
+      assert.ok(isRepositoryStateFile(path.join(gitDirectory, 'packed-refs'), gitDirectory));
+      assert.ok(!isRepositoryStateFile(path.join(gitDirectory, 'config'), gitDirectory));
+      assert.ok(!isRepositoryStateFile(gitDirectory, gitDirectory));
+      assert.ok(!isRepositoryStateFile(path.resolve('repo', 'src', 'HEAD'), gitDirectory));
+    });
+  });
+  describe('getBaseContents()', () => {
+    let directory: string;
+    function git(...args: string[]) {
+      cp.execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: directory, stdio: 'ignore' });
+    }
+    before(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'tslint-git-'));
+      fs.mkdirSync(path.join(directory, 'src'));
+      git('init', '-q');
+      fs.writeFileSync(path.join(directory, 'src', 'a.ts'), 'committed\n');
+      fs.writeFileSync(path.join(directory, 'src', '[id].ts'), 'id\n');
+      git('add', '.');
+      git('commit', '-q', '-m', 'initial');
+      fs.writeFileSync(path.join(directory, 'src', 'a.ts'), 'staged\n');
+      fs.writeFileSync(path.join(directory, 'src', 'b.ts'), 'new\n');
+      git('add', 'src/a.ts', 'src/b.ts');
+      fs.writeFileSync(path.join(directory, 'src', '[ab].ts'), 'untracked\n');
+      fs.writeFileSync(path.join(directory, 'src', 'a.ts'), 'modified\n');
+      fs.writeFileSync(path.join(directory, 'src', 'c.ts'), 'untracked\n');
+    });
+    after(() => {
+      fs.rmdirSync(directory, { recursive: true });
+    });
+
+    it('reads the contents of the file in the HEAD commit', async () => {
+      assert.equal(await getBaseContents(path.join(directory, 'src', 'a.ts'), 'HEAD', 'main'), 'committed\n');
+      assert.equal(await getBaseContents(path.join(directory, 'src', 'b.ts'), 'HEAD', 'main'), undefined);
+    });
+    it('reads the staged contents of the file', async () => {
+      assert.equal(await getBaseContents(path.join(directory, 'src', 'a.ts'), 'staged', 'main'), 'staged\n');
+      assert.equal(await getBaseContents(path.join(directory, 'src', 'b.ts'), 'staged', 'main'), 'new\n');
+      assert.equal(await getBaseContents(path.join(directory, 'src', 'c.ts'), 'staged', 'main'), undefined);
+    });
+    it('does not match the name of the file as a pattern', async () => {
+      assert.equal(await getBaseContents(path.join(directory, 'src', '[ab].ts'), 'HEAD', 'main'), undefined);
+      assert.equal(await getBaseContents(path.join(directory, 'src', '[ab].ts'), 'staged', 'main'), undefined);
+      assert.equal(await getBaseContents(path.join(directory, 'src', '[id].ts'), 'HEAD', 'main'), 'id\n');
+    });
+    it('rejects when the file is not in a repository', async () => {
+      await assert.rejects(getBaseContents(path.join(os.tmpdir(), 'a.ts'), 'HEAD', 'main'));
+    });
+  });
+  describe('getGitDirectories()', () => {
+    let directory: string;
+    before(() => {
+      directory = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'tslint-git-')));
+      fs.mkdirSync(path.join(directory, 'nested', 'folder'), { recursive: true });
+      cp.execFileSync('git', ['init', '-q'], { cwd: directory, stdio: 'ignore' });
+    });
+    after(() => {
+      fs.rmdirSync(directory, { recursive: true });
+    });
+
+    it('returns the git directory of the repository containing a nested folder', async () => {
+      assert.deepEqual(await getGitDirectories(path.join(directory, 'nested', 'folder', 'a.ts')), [path.join(directory, '.git')]);
+    });
+  });
+});
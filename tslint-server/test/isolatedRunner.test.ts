@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CancellationTokenSource } from 'vscode-languageserver/node';
+import { IsolatedRunner } from '../src/isolatedRunner';
+import { RunResult } from '../src/runner';
+
+// a worker that reports its process id as a warning, it never answers the contents 'hang'
+const worker = `
+process.on('message', request => {
+  if (request.type !== 'lint' || request.contents === 'hang') {
+    return;
+  }
+  setTimeout(() => process.send({
+    type: 'result',
+    id: request.id,
+    result: { failures: [], errorCount: 0, warningCount: 0, warnings: [String(process.pid)] }
+  }), request.contents === 'slow' ? 200 : 0);
+});
+`;
+
+function workerId(result: RunResult): string {
+  return result.warnings[0];
+}
+
+function rejected(promise: Promise<RunResult>): Promise<Error> {
+  return promise.then(() => { throw new Error('the request was not rejected'); }, (err: Error) => err);
+}
+
+describe('IsolatedRunner', () => {
+  let directory: string;
+  let runner: IsolatedRunner;
+  let traces: string[];
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'tslint-worker-'));
+    fs.writeFileSync(path.join(directory, 'worker.js'), worker);
+  });
+  after(() => {
+    fs.unlinkSync(path.join(directory, 'worker.js'));
+    fs.rmdirSync(directory);
+  });
+  beforeEach(() => {
+    traces = [];
+    runner = new IsolatedRunner(path.join(directory, 'worker.js'), () => [], message => traces.push(message));
+  });
+  afterEach(() => {
+    runner.dispose();
+  });
+
+  function lint(contents: string, source?: CancellationTokenSource): Promise<RunResult> {
+    return runner.runTsLint('/ws/a.ts', contents, false, {}, 10000, source && source.token);
+  }
+
+  describe('runTsLint()', () => {
+    it('rejects a request that is cancelled before it is queued', async () => {
+      let source = new CancellationTokenSource();
+      source.cancel();
+      let error = await rejected(lint('ok', source));
+      assert.ok(/was cancelled/.test(error.message));
+    });
+    it('removes a cancelled request from the queue and keeps the worker', async () => {
+      let first = lint('slow');
+      let source = new CancellationTokenSource();
+      let cancelled = lint('ok', source);
+      source.cancel();
+      let error = await rejected(cancelled);
+      assert.ok(/was cancelled/.test(error.message));
+      let id = workerId(await first);
+      assert.equal(workerId(await lint('ok')), id);
+      assert.ok(!traces.some(each => /restarted/.test(each)));
+    });
+    it('kills the worker linting a cancelled request and restarts it for the next request', async () => {
+      let id = workerId(await lint('ok'));
+      let source = new CancellationTokenSource();
+      let cancelled = lint('hang', source);
+      let next = lint('ok');
+      source.cancel();
+      let error = await rejected(cancelled);
+      assert.ok(/was cancelled/.test(error.message));
+      assert.notEqual(workerId(await next), id);
+      assert.ok(traces.some(each => /cancelled, the linter process is restarted/.test(each)));
+    });
+    it('ignores the cancellation of a finished request', async () => {
+      let source = new CancellationTokenSource();
+      let id = workerId(await lint('ok', source));
+      source.cancel();
+      assert.equal(workerId(await lint('ok')), id);
+    });
+  });
+});
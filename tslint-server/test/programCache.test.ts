@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as typescript from 'typescript';
+import { ProgramCache } from '../src/programCache';
+
+describe('ProgramCache', function () {
+  this.timeout(20000);
+  let folder: string;
+  let filePath: string;
+  let baseConfigPath: string;
+  let cache: ProgramCache;
+  beforeEach(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'tslint-program-'));
+    filePath = path.join(folder, 'a.ts');
+    baseConfigPath = path.join(folder, 'tsconfig.base.json');
+    fs.writeFileSync(filePath, 'let a = 1;\n');
+    fs.writeFileSync(path.join(folder, 'tsconfig.json'), JSON.stringify({ extends: './tsconfig.base.json', files: ['a.ts'] }));
+    fs.writeFileSync(baseConfigPath, JSON.stringify({ compilerOptions: { strict: false } }));
+    cache = new ProgramCache({ getVersion: () => undefined, getText: () => undefined }, () => { });
+  });
+  afterEach(() => {
+    fs.rmdirSync(folder, { recursive: true });
+  });
+
+  function getStrict(): boolean | undefined {
+    let program = cache.getProgram(typescript, filePath);
+    assert.ok(program);
+    return program!.getCompilerOptions().strict;
+  }
+
+  describe('getExtendedConfigFiles()', () => {
+    it('returns the configuration files extended by a tsconfig.json file', () => {
+      getStrict();
+      assert.deepEqual(cache.getExtendedConfigFiles(), [path.normalize(baseConfigPath)]);
+    });
+  });
+
+  describe('onDidChangeProjectConfig()', () => {
+    it('creates the program again when an extended configuration file changes', () => {
+      assert.equal(getStrict(), false);
+      fs.writeFileSync(baseConfigPath, JSON.stringify({ compilerOptions: { strict: true } }));
+      cache.onDidChangeProjectConfig(baseConfigPath);
+      assert.equal(getStrict(), true);
+    });
+    it('keeps the program when another configuration file changes', () => {
+      assert.equal(getStrict(), false);
+      fs.writeFileSync(baseConfigPath, JSON.stringify({ compilerOptions: { strict: true } }));
+      cache.onDidChangeProjectConfig(path.join(folder, 'other.json'));
+      assert.equal(getStrict(), false);
+    });
+  });
+});
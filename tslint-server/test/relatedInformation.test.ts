@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import * as ts from 'typescript';
+import { findRelatedLocations } from '../src/relatedInformation';
+
+function related(ruleName: string, text: string, failureText: string, occurrence = 1) {
+  let start = -1;
+  for (let i = 0; i < occurrence; i++) {
+    start = text.indexOf(failureText, start + 1);
+  }
+  let failure: any = {
+    getRuleName: () => ruleName,
+    getStartPosition: () => ({ getPosition: () => start }),
+    getEndPosition: () => ({ getPosition: () => start + failureText.length })
+  };
+  let sourceFile = ts.createSourceFile('test.ts', text, ts.ScriptTarget.Latest, true);
+  return findRelatedLocations(ts, sourceFile, failure).map(each => ({ text: text.substring(each.start, each.end), start: each.start, message: each.message }));
+}
+
+describe('findRelatedLocations()', () => {
+  it('finds the first import of a module', () => {
+    let text = 'import { a } from "m";\nimport { b } from "n";\nimport { c } from "m";\n';
+    assert.deepEqual(related('no-duplicate-imports', text, 'import { c } from "m";'), [
+      { text: 'import { a } from "m";', start: 0, message: `The first import of 'm'` }
+    ]);
+  });
+  it('finds the first case of a switch', () => {
+    let text = 'switch (x) { case 1: break; case 2: break; case 1: break; }';
+    assert.deepEqual(related('no-duplicate-switch-case', text, '1', 2), [
+      { text: '1', start: 18, message: `The first case with '1'` }
+    ]);
+  });
+  it('finds the first declaration of a variable', () => {
+    let text = 'function f() { var x = 1; if (b) { var x = 2; } }';
+    assert.deepEqual(related('no-duplicate-variable', text, 'x', 2), [
+      { text: 'x', start: 19, message: `The first declaration of 'x'` }
+    ]);
+  });
+  it('finds the shadowed declaration', () => {
+    let text = 'let a = 1;\nfunction f(a) {\n  { let a = 2; }\n}\n';
+    assert.deepEqual(related('no-shadowed-variable', text, 'a', 3), [
+      { text: 'a', start: 22, message: `The shadowed declaration of 'a'` }
+    ]);
+    assert.deepEqual(related('no-shadowed-variable', text, 'a', 2), [
+      { text: 'a', start: 4, message: `The shadowed declaration of 'a'` }
+    ]);
+  });
+  it('returns nothing for other rules', () => {
+    assert.deepEqual(related('semicolon', 'let a = 1', 'a'), []);
+  });
+});
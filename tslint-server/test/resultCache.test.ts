@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { hash, pruneCachedResults, readCachedResult, stableStringify, writeCachedResult } from '../src/resultCache';
+import { SerializedRunResult } from '../src/serialization';
+
+function result(failure: string): SerializedRunResult {
+  return {
+    failures: [{
+      fileName: '/ws/a.ts',
+      ruleName: 'semicolon',
+      ruleSeverity: 'error',
+      failure,
+      startPosition: { position: 10, line: 1, character: 3 },
+      endPosition: { position: 10, line: 1, character: 3 }
+    }],
+    errorCount: 1,
+    warningCount: 0,
+    warnings: []
+  };
+}
+
+describe('resultCache', () => {
+  let directory: string;
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'tslint-results-'));
+  });
+  afterEach(() => {
+    fs.readdirSync(directory).forEach(each => fs.unlinkSync(path.join(directory, each)));
+    fs.rmdirSync(directory);
+  });
+
+  describe('hash()', () => {
+    it('includes the boundaries of the texts', () => {
+      assert.equal(hash('ab', 'c'), hash('ab', 'c'));
+      assert.notEqual(hash('ab', 'c'), hash('a', 'bc'));
+    });
+  });
+  describe('stableStringify()', () => {
+    it('sorts the keys of the objects', () => {
+      assert.equal(stableStringify({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: 5 } }), stableStringify({ a: { c: 5, d: [2, { e: 4, f: 3 }] }, b: 1 }));
+      assert.notEqual(stableStringify({ a: 1 }), stableStringify({ a: 2 }));
+    });
+  });
+  describe('readCachedResult()', () => {
+    it('returns the result written for the same key', () => {
+      writeCachedResult(directory, '/ws/a.ts', 'key1', result('Missing semicolon'));
+      assert.deepEqual(readCachedResult(directory, '/ws/a.ts', 'key1'), result('Missing semicolon'));
+      assert.equal(readCachedResult(directory, '/ws/a.ts', 'key2'), undefined);
+      assert.equal(readCachedResult(directory, '/ws/b.ts', 'key1'), undefined);
+    });
+    it('replaces the entry of a file written with a different key', () => {
+      writeCachedResult(directory, '/ws/a.ts', 'key1', result('first'));
+      writeCachedResult(directory, '/ws/a.ts', 'key2', result('second'));
+      assert.equal(readCachedResult(directory, '/ws/a.ts', 'key1'), undefined);
+      assert.deepEqual(readCachedResult(directory, '/ws/a.ts', 'key2'), result('second'));
+      assert.equal(fs.readdirSync(directory).length, 1);
+    });
+    it('ignores entries that cannot be read', () => {
+      writeCachedResult(directory, '/ws/a.ts', 'key1', result('first'));
+      fs.writeFileSync(path.join(directory, fs.readdirSync(directory)[0]), '{ "key": "key1", ');
+      assert.equal(readCachedResult(directory, '/ws/a.ts', 'key1'), undefined);
+    });
+  });
+  describe('pruneCachedResults()', () => {
+    function setUsed(filePath: string, time: number) {
+      const entryPath = path.join(directory, `${hash(filePath)}.json`);
+      fs.utimesSync(entryPath, time, time);
+    }
+
+    it('removes the least recently used entries', () => {
+      writeCachedResult(directory, '/ws/a.ts', 'key', result('a'));
+      writeCachedResult(directory, '/ws/b.ts', 'key', result('b'));
+      writeCachedResult(directory, '/ws/c.ts', 'key', result('c'));
+      setUsed('/ws/a.ts', 3000);
+      setUsed('/ws/b.ts', 1000);
+      setUsed('/ws/c.ts', 2000);
+      pruneCachedResults(directory, 2);
+      assert.deepEqual(readCachedResult(directory, '/ws/a.ts', 'key'), result('a'));
+      assert.equal(readCachedResult(directory, '/ws/b.ts', 'key'), undefined);
+      assert.deepEqual(readCachedResult(directory, '/ws/c.ts', 'key'), result('c'));
+    });
+    it('keeps a recently read entry', () => {
+      writeCachedResult(directory, '/ws/a.ts', 'key', result('a'));
+      writeCachedResult(directory, '/ws/b.ts', 'key', result('b'));
+      setUsed('/ws/a.ts', 1000);
+      setUsed('/ws/b.ts', 2000);
+      readCachedResult(directory, '/ws/a.ts', 'key');
+      pruneCachedResults(directory, 1);
+      assert.deepEqual(readCachedResult(directory, '/ws/a.ts', 'key'), result('a'));
+      assert.equal(readCachedResult(directory, '/ws/b.ts', 'key'), undefined);
+    });
+    it('ignores a missing directory', () => {
+      pruneCachedResults(path.join(directory, 'missing'), 1);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { IRuleMetadata } from 'tslint';
+import { formatRuleDocumentation, formatRuleSummary, getRuleDocumentationUrl } from '../src/ruleDocumentation';
+
+describe('ruleDocumentation', () => {
+  describe('getRuleDocumentationUrl()', () => {
+    it('links the core rules to the tslint documentation', () => {
+      assert.equal(getRuleDocumentationUrl(undefined, 'semicolon', 'tslint'), 'https://palantir.github.io/tslint/rules/semicolon');
+      assert.equal(getRuleDocumentationUrl(undefined, 'my-rule', undefined), undefined);
+      assert.equal(getRuleDocumentationUrl(undefined, 'my-rule', 'my-rules'), undefined);
+    });
+    it('uses the source of the package before the prefixes', () => {
+      let sources = { 'codelyzer': 'http://codelyzer.com/rules/{rule}/', 'no-': 'https://example.com/{rule}' };
+      assert.equal(getRuleDocumentationUrl(sources, 'no-input-rename', 'codelyzer'), 'http://codelyzer.com/rules/no-input-rename/');
+      assert.equal(getRuleDocumentationUrl(sources, 'no-foo', 'other'), 'https://example.com/no-foo');
+    });
+    it('uses the longest matching prefix', () => {
+      let sources = { 'react-': 'https://a/{rule}', 'react-a11y-': 'https://b/{rule}' };
+      assert.equal(getRuleDocumentationUrl(sources, 'react-a11y-role', undefined), 'https://b/react-a11y-role');
+      assert.equal(getRuleDocumentationUrl(sources, 'react-no-dangerous-html', undefined), 'https://a/react-no-dangerous-html');
+    });
+    it('removes the URL with null', () => {
+      assert.equal(getRuleDocumentationUrl({ 'tslint': null }, 'semicolon', 'tslint'), undefined);
+    });
+  });
+  describe('formatRuleDocumentation()', () => {
+    let metadata: IRuleMetadata = {
+      ruleName: 'my-rule',
+      type: 'style',
+      description: 'Does things.',
+      rationale: 'Because.',
+      optionsDescription: 'A number.',
+      options: { type: 'number' },
+      optionExamples: [true, [true, 2]],
+      hasFix: true,
+      typescriptOnly: false
+    };
+    it('formats the metadata', () => {
+      let markdown = formatRuleDocumentation({ ruleName: 'my-rule', metadata, rulePath: '/rules/myRuleRule.js', url: 'https://example.com/my-rule' });
+      assert.ok(markdown.startsWith('# my-rule\n\n[Online documentation](https://example.com/my-rule)\n\nDoes things.\n'));
+      assert.ok(markdown.indexOf('- Has a fix') !== -1);
+      assert.ok(markdown.indexOf('## Rationale\n\nBecause.') !== -1);
+      assert.ok(markdown.indexOf('"my-rule": [true,2]') !== -1);
+      assert.ok(markdown.endsWith('Implemented in `/rules/myRuleRule.js`.'));
+    });
+    it('formats the configured options', () => {
+      let markdown = formatRuleDocumentation({
+        ruleName: 'my-rule',
+        metadata,
+        configuration: { configFilePath: '/tslint.json', options: { ruleSeverity: 'warning', ruleArguments: [2] } }
+      });
+      assert.ok(markdown.indexOf('## Configuration\n\nThe rule is configured in `/tslint.json`') !== -1);
+      assert.ok(markdown.indexOf('"my-rule": {\n  "severity": "warning",\n  "options": [\n    2\n  ]\n}') !== -1);
+      assert.ok(formatRuleDocumentation({ ruleName: 'my-rule', metadata, configuration: {} }).indexOf('The rule is not configured in the default configuration.') !== -1);
+    });
+    it('formats rules without metadata', () => {
+      assert.equal(formatRuleDocumentation({ ruleName: 'my-rule' }), '# my-rule\n\nThe rule could not be found.');
+    });
+    it('formats a summary', () => {
+      assert.equal(formatRuleSummary({
+        ruleName: 'my-rule',
+        metadata,
+        url: 'https://example.com/my-rule',
+        configuration: { configFilePath: '/tslint.json' }
+      }), '**my-rule**\n\nDoes things.\n\nThe rule is not configured in `/tslint.json`.\n\n[Online documentation](https://example.com/my-rule)');
+      assert.equal(formatRuleSummary({ ruleName: 'my-rule' }), '**my-rule**\n\nThe rule could not be found.');
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { formatRuleProfile, RuleStatistics } from '../src/ruleProfile';
+
+describe('ruleProfile', () => {
+  describe('RuleStatistics', () => {
+    it('computes the rolling statistics of the rules', () => {
+      let statistics = new RuleStatistics();
+      statistics.add([{ ruleName: 'semicolon', duration: 1, failureCount: 0 }, { ruleName: 'no-console', duration: 4, failureCount: 1 }]);
+      statistics.add([{ ruleName: 'semicolon', duration: 3, failureCount: 2 }]);
+      assert.deepEqual(statistics.getStatistics(), [
+        { ruleName: 'no-console', runs: 1, average: 4, maximum: 4 },
+        { ruleName: 'semicolon', runs: 2, average: 2, maximum: 3 }
+      ]);
+      for (let i = 0; i < 200; i++) {
+        statistics.add([{ ruleName: 'semicolon', duration: 5, failureCount: 0 }]);
+      }
+      assert.deepEqual(statistics.getStatistics()[0], { ruleName: 'semicolon', runs: 100, average: 5, maximum: 5 });
+      statistics.clear();
+      assert.deepEqual(statistics.getStatistics(), []);
+    });
+  });
+  describe('formatRuleProfile()', () => {
+    it('sorts the rules by the time spent', () => {
+      let markdown = formatRuleProfile('/ws/a.ts', [
+        { ruleName: 'semicolon', duration: 1, failureCount: 2 },
+        { ruleName: 'no-console', duration: 3, failureCount: 0 }
+      ], 10);
+      assert.ok(markdown.startsWith('# Rule profile of `/ws/a.ts`\n\nLinting the file took 10.00 ms, 4.00 ms of it were spent in 2 rules.'));
+      assert.ok(markdown.endsWith('| `no-console` | 3.00 | 75.0% | 0 |\n| `semicolon` | 1.00 | 25.0% | 2 |'));
+    });
+    it('formats the rolling statistics', () => {
+      let markdown = formatRuleProfile('/ws/a.ts', [], 1, [{ ruleName: 'semicolon', runs: 3, average: 1.5, maximum: 2 }]);
+      assert.ok(markdown.endsWith('## Rolling statistics\n\nThe time spent in the rules over the last 100 runs of each rule.\n\n'
+        + '| Rule | Runs | Average (ms) | Maximum (ms) |\n| --- | ---: | ---: | ---: |\n| `semicolon` | 3 | 1.50 | 2.00 |'));
+      assert.ok(formatRuleProfile('/ws/a.ts', [], 1, []).endsWith('No statistics were collected yet.'));
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import * as assert from 'assert';
+import { getRuleSeverityOverride } from '../src/ruleSeverity';
+
+describe('getRuleSeverityOverride()', () => {
+  it('returns undefined without overrides', () => {
+    assert.equal(getRuleSeverityOverride(undefined, 'semicolon'), undefined);
+    assert.equal(getRuleSeverityOverride({ 'no-console': 'error' }, 'semicolon'), undefined);
+  });
+  it('matches rule names and patterns', () => {
+    let overrides = { 'no-*': 'hint', 'no-console': 'error', '*-whitespace': 'off' } as any;
+    assert.equal(getRuleSeverityOverride(overrides, 'no-console'), 'error');
+    assert.equal(getRuleSeverityOverride(overrides, 'no-empty'), 'hint');
+    assert.equal(getRuleSeverityOverride(overrides, 'typedef-whitespace'), 'off');
+  });
+  it('uses the first matching pattern', () => {
+    let overrides = { 'no-*': 'info', '*': 'warning' } as any;
+    assert.equal(getRuleSeverityOverride(overrides, 'no-empty'), 'info');
+    assert.equal(getRuleSeverityOverride(overrides, 'semicolon'), 'warning');
+  });
+});
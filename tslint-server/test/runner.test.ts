@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as typescript from 'typescript';
+import { RunConfiguration, TsLintRunner } from '../src/runner';
+
+// the tslint library of the tests is installed in the node_modules of the server
+const nodePath = path.resolve(__dirname, '..', '..', '..', 'node_modules');
+
+function removeDirectory(directory: string) {
+  for (let each of fs.readdirSync(directory)) {
+    let entryPath = path.join(directory, each);
+    if (fs.statSync(entryPath).isDirectory()) {
+      removeDirectory(entryPath);
+    } else {
+      fs.unlinkSync(entryPath);
+    }
+  }
+  fs.rmdirSync(directory);
+}
+
+describe('TsLintRunner', function () {
+  this.timeout(20000);
+  let folder: string;
+  let filePath: string;
+  let configuration: RunConfiguration;
+  let traces: string[];
+  let runner: TsLintRunner;
+  // the runner changes the working directory to the workspace folder
+  let cwd = process.cwd();
+  beforeEach(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'tslint-runner-'));
+    filePath = path.join(folder, 'a.ts');
+    fs.writeFileSync(path.join(folder, 'tslint.json'), JSON.stringify({ rules: { semicolon: true } }));
+    fs.writeFileSync(filePath, 'let a = 1\n');
+    configuration = { nodePath, workspaceFolderPath: folder, cacheDirectory: path.join(folder, 'cache') };
+    traces = [];
+    runner = new TsLintRunner(message => traces.push(message));
+  });
+  afterEach(() => {
+    process.chdir(cwd);
+    removeDirectory(folder);
+  });
+
+  function lintProgram(options: typescript.CompilerOptions): boolean {
+    traces = [];
+    let program = typescript.createProgram([filePath], options);
+    let result = runner.runTsLint(filePath, program, configuration);
+    assert.equal(result.lintResult.failures.length, 1);
+    return traces.some(each => each.startsWith('No linting: using the cached result'));
+  }
+
+  describe('runTsLint()', () => {
+    it('uses the cached result of a program with the same compiler options', () => {
+      assert.ok(!lintProgram({ strictNullChecks: true, noImplicitAny: true }));
+      assert.ok(lintProgram({ noImplicitAny: true, strictNullChecks: true }));
+    });
+    it('does not use the cached result of a program with other compiler options', () => {
+      assert.ok(!lintProgram({ strictNullChecks: true }));
+      assert.ok(!lintProgram({ strictNullChecks: false }));
+    });
+  });
+});
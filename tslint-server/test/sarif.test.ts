@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import * as server from 'vscode-languageserver';
+import { createSarifLog, ProblemWithFix } from '../src/sarif';
+
+function problem(ruleId: string, severity: server.DiagnosticSeverity, line: number, fix?: ProblemWithFix['fix']): ProblemWithFix {
+  return {
+    diagnostic: {
+      severity,
+      message: `failure of ${ruleId}`,
+      range: server.Range.create(line, 2, line, 5),
+      code: ruleId,
+      codeDescription: ruleId === 'custom' ? undefined : { href: `https://palantir.github.io/tslint/rules/${ruleId}` },
+      source: 'tslint'
+    },
+    fix
+  };
+}
+
+describe('createSarifLog()', () => {
+  it('creates a result per problem', () => {
+    let problems = new Map<string, ProblemWithFix[]>();
+    problems.set('file:///b.ts', [problem('semicolon', server.DiagnosticSeverity.Error, 0)]);
+    problems.set('file:///a.ts', [
+      problem('quotemark', server.DiagnosticSeverity.Warning, 3),
+      problem('semicolon', server.DiagnosticSeverity.Information, 4)
+    ]);
+    let log = createSarifLog(problems);
+
+    assert.equal(log.version, '2.1.0');
+    assert.equal(log.runs.length, 1);
+    let run = log.runs[0];
+    assert.deepEqual(run.tool.driver.rules.map(each => each.id), ['quotemark', 'semicolon']);
+    assert.deepEqual(run.results.map(each => [each.ruleId, each.ruleIndex, each.level]), [
+      ['quotemark', 0, 'warning'],
+      ['semicolon', 1, 'note'],
+      ['semicolon', 1, 'error']
+    ]);
+    assert.deepEqual(run.results[0].locations[0].physicalLocation, {
+      artifactLocation: { uri: 'file:///a.ts' },
+      region: { startLine: 4, startColumn: 3, endLine: 4, endColumn: 6 }
+    });
+    assert.equal(run.results[0].message.text, 'failure of quotemark');
+    assert.equal(run.results[0].fixes, undefined);
+  });
+  it('links the rules to the documentation of the problems', () => {
+    let problems = new Map<string, ProblemWithFix[]>();
+    problems.set('file:///a.ts', [problem('semicolon', server.DiagnosticSeverity.Error, 0), problem('custom', server.DiagnosticSeverity.Error, 1)]);
+    assert.deepEqual(createSarifLog(problems).runs[0].tool.driver.rules, [
+      { id: 'semicolon', helpUri: 'https://palantir.github.io/tslint/rules/semicolon' },
+      { id: 'custom' }
+    ]);
+  });
+  it('converts the fix edits into replacements', () => {
+    let problems = new Map<string, ProblemWithFix[]>();
+    problems.set('file:///a.ts', [problem('semicolon', server.DiagnosticSeverity.Error, 0, {
+      label: 'Fix: Missing semicolon',
+      edits: [server.TextEdit.insert(server.Position.create(0, 10), ';')]
+    })]);
+    let fixes = createSarifLog(problems).runs[0].results[0].fixes!;
+
+    assert.equal(fixes.length, 1);
+    assert.equal(fixes[0].description.text, 'Fix: Missing semicolon');
+    assert.deepEqual(fixes[0].artifactChanges, [{
+      artifactLocation: { uri: 'file:///a.ts' },
+      replacements: [{
+        deletedRegion: { startLine: 1, startColumn: 11, endLine: 1, endColumn: 11 },
+        insertedContent: { text: ';' }
+      }]
+    }]);
+  });
+});
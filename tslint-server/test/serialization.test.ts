@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { deserializeRuleFailure, SerializedRuleFailure, serializeRuleFailure } from '../src/serialization';
+
+function failure(fix?: { start: number, length: number, text: string }[]): SerializedRuleFailure {
+  return {
+    fileName: '/folder/file.ts',
+    ruleName: 'semicolon',
+    ruleSeverity: 'error',
+    failure: 'Missing semicolon',
+    startPosition: { position: 10, line: 1, character: 3 },
+    endPosition: { position: 10, line: 1, character: 3 },
+    fix
+  };
+}
+
+describe('Serialization', () => {
+  describe('deserializeRuleFailure()', () => {
+    it('provides the failure accessors', () => {
+      let problem = deserializeRuleFailure(failure([{ start: 10, length: 0, text: ';' }]));
+      assert.equal(problem.getRuleName(), 'semicolon');
+      assert.equal(problem.getRuleSeverity(), 'error');
+      assert.equal(problem.getFailure(), 'Missing semicolon');
+      assert.equal(problem.getStartPosition().getPosition(), 10);
+      assert.deepEqual(problem.getEndPosition().getLineAndCharacter(), { line: 1, character: 3 });
+      let fix = <any[]>problem.getFix();
+      assert.equal(fix.length, 1);
+      assert.equal(fix[0].end, 10);
+      assert.equal(fix[0].text, ';');
+    });
+    it('round trips', () => {
+      let serialized = failure([{ start: 2, length: 3, text: 'abc' }]);
+      assert.deepEqual(serializeRuleFailure(deserializeRuleFailure(serialized)), serialized);
+      assert.deepEqual(serializeRuleFailure(deserializeRuleFailure(failure())), failure());
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import { CancellationToken, CancellationTokenSource } from 'vscode-languageserver/node';
+import { isValidationOutdated, ValidationScheduler } from '../src/validationScheduler';
+
+const uri = 'file:///ws/a.ts';
+
+// a validation that records the tokens of its runs, a run lasts until it is finished
+class Validation {
+  public readonly tokens: CancellationToken[] = [];
+  private finishRun: (() => void) | undefined;
+
+  public readonly validate = (token: CancellationToken) => {
+    this.tokens.push(token);
+    return new Promise<void>(resolve => this.finishRun = resolve);
+  }
+
+  public finish() {
+    this.finishRun!();
+  }
+}
+
+function delay(milliseconds: number): Promise<void> {
+  return new Promise<void>(resolve => setTimeout(resolve, milliseconds));
+}
+
+describe('validationScheduler', () => {
+  describe('isValidationOutdated()', () => {
+    it('is outdated when the validation is cancelled or the document has another version', () => {
+      let source = new CancellationTokenSource();
+      assert.ok(!isValidationOutdated(source.token, 2, { version: 2 }));
+      assert.ok(isValidationOutdated(source.token, 2, { version: 3 }));
+      source.cancel();
+      assert.ok(isValidationOutdated(source.token, 2, { version: 2 }));
+    });
+  });
+  describe('ValidationScheduler', () => {
+    it('validates a document once after the delay', async () => {
+      let scheduler = new ValidationScheduler(10);
+      let runs: string[] = [];
+      scheduler.trigger(uri, async () => { runs.push('first'); });
+      let pending = scheduler.trigger(uri, async () => { runs.push('second'); });
+      assert.equal(scheduler.getPending(uri), pending);
+      await pending;
+      assert.deepEqual(runs, ['second']);
+      assert.equal(scheduler.getPending(uri), undefined);
+    });
+    it('cancels the running validation when the document is validated again', async () => {
+      let scheduler = new ValidationScheduler(0);
+      let validation = new Validation();
+      let running = scheduler.run(uri, validation.validate);
+      assert.ok(!validation.tokens[0].isCancellationRequested);
+      await scheduler.trigger(uri, async token => assert.ok(!token.isCancellationRequested));
+      assert.ok(validation.tokens[0].isCancellationRequested);
+      validation.finish();
+      await running;
+    });
+    it('cancels the running validation of a document', async () => {
+      let scheduler = new ValidationScheduler(0);
+      let validation = new Validation();
+      let running = scheduler.run(uri, validation.validate);
+      scheduler.cancel('file:///ws/b.ts');
+      assert.ok(!validation.tokens[0].isCancellationRequested);
+      scheduler.cancel(uri);
+      assert.ok(validation.tokens[0].isCancellationRequested);
+      validation.finish();
+      await running;
+    });
+    describe('awaitValidation()', () => {
+      it('validates a document waiting for the delay now', async () => {
+        let scheduler = new ValidationScheduler(50);
+        let runs = 0;
+        let pending = scheduler.trigger(uri, async () => { runs++; });
+        await scheduler.awaitValidation(uri);
+        assert.equal(runs, 1);
+        // the validation is not run again when the delay ends
+        await pending;
+        assert.equal(runs, 1);
+      });
+      it('waits for the running validation', async () => {
+        let scheduler = new ValidationScheduler(0);
+        let validation = new Validation();
+        let pending = scheduler.trigger(uri, validation.validate);
+        while (validation.tokens.length === 0) {
+          await delay(1);
+        }
+        let awaited = false;
+        let awaiting = scheduler.awaitValidation(uri).then(() => awaited = true);
+        await delay(10);
+        assert.ok(!awaited);
+        validation.finish();
+        await awaiting;
+        await pending;
+        assert.equal(validation.tokens.length, 1);
+      });
+      it('ignores a failed validation', async () => {
+        let scheduler = new ValidationScheduler(0);
+        let pending = scheduler.trigger(uri, () => delay(5).then(() => { throw new Error('failed'); }));
+        pending.catch(() => undefined);
+        await delay(1);
+        await scheduler.awaitValidation(uri);
+      });
+      it('returns when the document is not validated', async () => {
+        await new ValidationScheduler(0).awaitValidation(uri);
+      });
+    });
+  });
+});
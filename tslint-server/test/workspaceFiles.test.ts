@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as typescript from 'typescript';
+import { findWorkspaceFiles, isInIgnoredDirectory } from '../src/workspaceFiles';
+
+function writeFile(filePath: string, contents = '') {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, contents);
+}
+
+function removeDirectory(directory: string) {
+  for (let entry of fs.readdirSync(directory)) {
+    let entryPath = path.join(directory, entry);
+    if (fs.lstatSync(entryPath).isDirectory()) {
+      removeDirectory(entryPath);
+    } else {
+      fs.unlinkSync(entryPath);
+    }
+  }
+  fs.rmdirSync(directory);
+}
+
+describe('workspaceFiles', () => {
+  let folder: string;
+  beforeEach(() => {
+    folder = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'tslint-workspace-')));
+  });
+  afterEach(() => {
+    removeDirectory(folder);
+  });
+
+  describe('findWorkspaceFiles()', () => {
+    it('returns the lintable files outside of ignored directories when there is no tsconfig.json', async () => {
+      writeFile(path.join(folder, 'a.ts'));
+      writeFile(path.join(folder, 'src', 'b.tsx'));
+      writeFile(path.join(folder, 'src', 'c.js'));
+      writeFile(path.join(folder, 'readme.md'));
+      writeFile(path.join(folder, 'node_modules', 'd', 'index.ts'));
+      let files = await findWorkspaceFiles(folder, false, () => undefined);
+      assert.deepEqual(files.sort(), [path.join(folder, 'a.ts'), path.join(folder, 'src', 'b.tsx')]);
+      files = await findWorkspaceFiles(folder, true, () => undefined);
+      assert.deepEqual(files.sort(), [path.join(folder, 'a.ts'), path.join(folder, 'src', 'b.tsx'), path.join(folder, 'src', 'c.js')]);
+    });
+    it('returns the files of the tsconfig.json files', async () => {
+      writeFile(path.join(folder, 'tsconfig.json'), JSON.stringify({ include: ['src'] }));
+      writeFile(path.join(folder, 'src', 'a.ts'));
+      writeFile(path.join(folder, 'other', 'b.ts'));
+      let files = await findWorkspaceFiles(folder, false, () => typescript);
+      assert.deepEqual(files, [path.join(folder, 'src', 'a.ts')]);
+    });
+    it('does not follow symbolic links to directories', async () => {
+      writeFile(path.join(folder, 'src', 'a.ts'));
+      fs.symlinkSync(folder, path.join(folder, 'src', 'loop'), 'dir');
+      let files = await findWorkspaceFiles(folder, false, () => undefined);
+      assert.deepEqual(files, [path.join(folder, 'src', 'a.ts')]);
+    });
+  });
+  describe('isInIgnoredDirectory()', () => {
+    it('checks whether a segment of the path is an ignored directory', () => {
+      assert.ok(isInIgnoredDirectory('/ws/node_modules/a/index.ts'));
+      assert.ok(isInIgnoredDirectory('C:\\ws\\.git\\HEAD'));
+      assert.ok(!isInIgnoredDirectory('/ws/src/node_modules_a.ts'));
+      assert.ok(!isInIgnoredDirectory('/ws/src/a.ts'));
+    });
+  });
+});
@@ -3,29 +3,40 @@ import * as fs from 'fs';
 import {
 	workspace, window, commands, ExtensionContext, StatusBarAlignment, TextEditor, Disposable, TextDocumentSaveReason, Uri,
 	ProviderResult, Command, Diagnostic, CodeActionContext, WorkspaceFolder, TextDocument, WorkspaceFolderPickOptions,
-	TextDocumentWillSaveEvent, CodeAction
+	TextDocumentWillSaveEvent, CodeAction, ProgressLocation, WorkspaceEdit, TextEdit as VTextEdit, EventEmitter, ConfigurationTarget
 } from 'vscode';
 import {
 	LanguageClient, LanguageClientOptions, ServerOptions, TextEdit,
-	RequestType, TextDocumentIdentifier, State as ClientState, NotificationType, TransportKind,
+	RequestType, RequestType0, TextDocumentIdentifier, State as ClientState, NotificationType, TransportKind,
 	CancellationToken, WorkspaceMiddleware, ConfigurationParams
-} from 'vscode-languageclient';
+} from 'vscode-languageclient/node';
 import { exec } from 'child_process';
 
 interface AllFixesParams {
 	readonly textDocument: TextDocumentIdentifier;
 	readonly isOnSave: boolean;
+	readonly timeBudget?: number;
 }
 
 interface AllFixesResult {
 	readonly documentVersion: number;
 	readonly edits: TextEdit[];
 	readonly ruleId?: string;
+	readonly fixCount: number;
 	readonly overlappingFixes: boolean;
 }
 
 namespace AllFixesRequest {
-	export const type = new RequestType<AllFixesParams, AllFixesResult, void, void>('textDocument/tslint/allFixes');
+	export const type = new RequestType<AllFixesParams, AllFixesResult, void>('textDocument/tslint/allFixes');
+}
+
+interface LintableFilesParams {
+	readonly workspaceFolder: string;
+	readonly folder?: string;
+}
+
+namespace LintableFilesRequest {
+	export const type = new RequestType<LintableFilesParams, string[], void>('tslint/lintableFiles');
 }
 
 interface NoTSLintLibraryParams {
@@ -36,7 +47,72 @@ interface NoTSLintLibraryResult {
 }
 
 namespace NoTSLintLibraryRequest {
-	export const type = new RequestType<NoTSLintLibraryParams, NoTSLintLibraryResult, void, void>('tslint/noLibrary');
+	export const type = new RequestType<NoTSLintLibraryParams, NoTSLintLibraryResult, void>('tslint/noLibrary');
+}
+
+interface RuleDocumentationParams {
+	readonly uri: string;
+	readonly ruleName: string;
+}
+
+interface RuleDocumentation {
+	readonly url?: string;
+	readonly markdown?: string;
+}
+
+namespace RuleDocumentationRequest {
+	export const type = new RequestType<RuleDocumentationParams, RuleDocumentation, void>('tslint/ruleDocumentation');
+}
+
+interface ExplainConfigurationParams {
+	readonly uri: string;
+}
+
+namespace ExplainConfigurationRequest {
+	export const type = new RequestType<ExplainConfigurationParams, string | null, void>('tslint/explainConfiguration');
+}
+
+interface ProfileRulesParams {
+	readonly uri: string;
+}
+
+namespace ProfileRulesRequest {
+	export const type = new RequestType<ProfileRulesParams, string | null, void>('tslint/profileRules');
+}
+
+interface BaselineEntry {
+	readonly file: string;
+	readonly rule: string;
+	readonly fingerprint: string;
+}
+
+interface BaselineEntriesParams {
+	readonly uri: string;
+}
+
+namespace BaselineEntriesRequest {
+	export const type = new RequestType<BaselineEntriesParams, BaselineEntry[] | null, void>('tslint/baselineEntries');
+}
+
+interface WriteBaselineParams {
+	readonly workspaceFolder: string;
+	readonly folder?: string;
+	readonly entries: BaselineEntry[];
+}
+
+namespace WriteBaselineRequest {
+	export const type = new RequestType<WriteBaselineParams, string, void>('tslint/writeBaseline');
+}
+
+// the SARIF 2.1.0 log of the problems created by the server, the log is written as is
+interface SarifLog {
+	$schema: string;
+	version: '2.1.0';
+	runs: object[];
+}
+
+namespace SarifRequest {
+	export const type = new RequestType0<SarifLog, void>('tslint/sarif');
 }
 
 enum Status {
@@ -47,10 +123,11 @@ enum Status {
 
 interface StatusParams {
 	state: Status;
+	message?: string;
 }
 
 namespace StatusNotification {
-	export const type = new NotificationType<StatusParams, void>('tslint/status');
+	export const type = new NotificationType<StatusParams>('tslint/status');
 }
 
 interface Settings {
@@ -62,15 +139,30 @@ interface Settings {
 	exclude: string | string[];
 	validateWithDefaultConfig: boolean;
 	nodePath: string | undefined;
-	run: 'onSave' | 'onType';
+	run: 'onSave' | 'onType' | 'workspace';
 	alwaysShowRuleFailuresAsWarnings: boolean;
+	ruleSeverityOverrides: { [ruleNameOrPattern: string]: 'error' | 'warning' | 'info' | 'hint' | 'off' } | undefined;
+	ruleDocumentation: { [prefixOrPackageName: string]: string | null } | undefined;
+	reportUnusedDisableDirectives: boolean;
+	collectRuleStatistics: boolean;
+	cacheResults: boolean;
+	useBaseline: boolean;
+	reportScope: 'file' | 'changedLines';
+	changedLinesBase: 'HEAD' | 'mergeBase' | 'staged';
+	changedLinesMainBranch: string;
 	alwaysShowStatus: boolean;
 	autoFixOnSave: boolean | string[];
 	packageManager: 'npm' | 'yarn';
+	typeCheck: boolean;
+	runInSeparateProcess: boolean;
+	lintTimeout: number;
 	trace: any;
 	workspaceFolderPath: string; // 'virtual' setting sent to the server
 }
 
+// the scheme of the markdown documents created by the server and shown in a preview
+const previewScheme = 'tslint-preview';
+
 let willSaveTextDocumentListener: Disposable;
 let configurationChangedListener: Disposable;
 
@@ -159,18 +251,44 @@ export function activate(context: ExtensionContext) {
 		debug: { module: serverModulePath, transport: TransportKind.ipc, options: debugOptions }
 	};
 
+	// untitled documents are linted under a synthetic path, documents of other schemes, e.g. the revisions shown
+	// in a diff view, are only linted when their scheme is configured
+	let lintedSchemes = ['file', 'untitled', ...workspace.getConfiguration('tslint').get<string[]>('additionalSchemes', [])];
+	let lintedDocuments: { scheme: string, language: string }[] = [];
+	for (let scheme of lintedSchemes) {
+		for (let language of ['typescript', 'typescriptreact', 'javascript', 'javascriptreact']) {
+			lintedDocuments.push({ scheme, language });
+		}
+	}
+
 	let clientOptions: LanguageClientOptions = {
 		documentSelector: [
-			{ language: 'typescript', scheme: 'file' },
-			{ language: 'typescriptreact', scheme: 'file' },
-			{ language: 'javascript', scheme: 'file' },
-			{ language: 'javascriptreact', scheme: 'file' }
+			...lintedDocuments,
+			// the configuration files are validated and provide completions for the rules
+			{ scheme: 'file', pattern: '**/tslint.{json,yml,yaml}' }
 		],
 		synchronize: {
 			configurationSection: 'tslint',
-			fileEvents: workspace.createFileSystemWatcher('**/tslint.{json,yml,yaml}')
+			fileEvents: [
+				workspace.createFileSystemWatcher('**/tslint.{json,yml,yaml}'),
+				// the failures recorded in the baseline are not shown
+				workspace.createFileSystemWatcher('**/.tslint-baseline.json'),
+				// used to keep the diagnostics and the programs current when linting the whole workspace or type checking,
+				// the server ignores these events otherwise
+				workspace.createFileSystemWatcher('**/*.{ts,tsx,js,jsx}'),
+				workspace.createFileSystemWatcher('**/tsconfig.json')
+			]
 		},
 		diagnosticCollectionName: 'tslint',
+		// the server waits for the pending validation of a document when its diagnostics are pulled
+		diagnosticPullOptions: {
+			onChange: true,
+			onSave: true
+		},
+		initializationOptions: {
+			// the lint results are cached in the storage of the workspace so that they are available after a restart
+			storagePath: (context.storageUri || context.globalStorageUri).fsPath
+		},
 		initializationFailedHandler: (error) => {
 			client.error('Server initialization failed.', error);
 			client.outputChannel.show(true);
@@ -191,7 +309,7 @@ export function activate(context: ExtensionContext) {
 				if (tslintDiagnostics.length === 0) {
 					return [];
 				}
-				let newContext: CodeActionContext = Object.assign({}, context, { diagnostics: tslintDiagnostics } as CodeActionContext);
+				let newContext: CodeActionContext = Object.assign({}, context, { diagnostics: tslintDiagnostics });
 				return next(document, range, newContext, token);
 			},
 			workspace: {
@@ -211,6 +329,10 @@ export function activate(context: ExtensionContext) {
 					}
 					let resource = client.protocol2CodeConverter.asUri(scopeUri);
 					let workspaceFolder = workspace.getWorkspaceFolder(resource);
+					// a document that is not saved on disk uses the configuration of the first workspace folder
+					if (!workspaceFolder && resource.scheme !== 'file' && workspace.workspaceFolders) {
+						workspaceFolder = workspace.workspaceFolders[0];
+					}
 					if (workspaceFolder) {
 						convertToAbsolutePaths(result[0], workspaceFolder);
 						if (workspaceFolder.uri.scheme === 'file') {
@@ -242,18 +364,19 @@ export function activate(context: ExtensionContext) {
 		updateStatusBarVisibility(window.activeTextEditor);
 	});
 
-	client.onReady().then(() => {
-		client.onNotification(StatusNotification.type, (params) => {
-			updateStatus(params.state);
-		});
-		client.onRequest(NoTSLintLibraryRequest.type, (params) => {
-			let uri: Uri = Uri.parse(params.source.uri);
-			let workspaceFolder = workspace.getWorkspaceFolder(uri);
-			let packageManager = workspace.getConfiguration('tslint', uri).get('packageManager', 'npm');
-			client.info(getInstallFailureMessage(uri, workspaceFolder, packageManager));
-			updateStatus(Status.warn);
-			return {};
-		});
+	client.onNotification(StatusNotification.type, (params) => {
+		if (params.message) {
+			client.error(params.message);
+		}
+		updateStatus(params.state);
+	});
+	client.onRequest(NoTSLintLibraryRequest.type, (params) => {
+		let uri: Uri = Uri.parse(params.source.uri);
+		let workspaceFolder = workspace.getWorkspaceFolder(uri);
+		let packageManager = workspace.getConfiguration('tslint', uri).get('packageManager', 'npm');
+		client.info(getInstallFailureMessage(uri, workspaceFolder, packageManager));
+		updateStatus(Status.warn);
+		return {};
 	});
 
 	function getInstallFailureMessage(uri: Uri, workspaceFolder: WorkspaceFolder | undefined, packageManager: string): string {
@@ -332,28 +455,51 @@ export function activate(context: ExtensionContext) {
 		return true;
 	}
 
-	function applyDisableRuleEdit(uri: string, documentVersion: number, edits: TextEdit[]) {
+	async function showRuleDocumentation(uri: string, _documentVersion: number, _edits: TextEdit[], ruleId: string) {
+		if (!ruleId) {
+			return;
+		}
+		let documentation = await client.sendRequest(RuleDocumentationRequest.type, { uri, ruleName: ruleId });
+		if (!documentation.markdown) {
+			return;
+		}
+		// the documentation is created from the metadata of the rule so that it is available offline, it links to the online documentation
+		showPreview(`rules/${encodeURIComponent(ruleId)}.md`, documentation.markdown);
+	}
+
+	async function explainConfiguration() {
 		let textEditor = window.activeTextEditor;
-		if (textEditor && textEditor.document.uri.toString() === uri) {
-			if (textEditor.document.version !== documentVersion) {
-				window.showInformationMessage(`TSLint fixes are outdated and can't be applied to the document.`);
-			}
-			// prefix disable comment with same indent as line with the diagnostic
-			let edit = edits[0];
-			let ruleLine = textEditor.document.lineAt(edit.range.start.line);
-			let prefixIndex = ruleLine.firstNonWhitespaceCharacterIndex;
-			let prefix = ruleLine.text.substr(0, prefixIndex);
-			edit.newText = prefix + edit.newText;
-			applyTextEdits(uri, documentVersion, edits);
+		if (!serverRunning || !textEditor) {
+			return;
 		}
+		let document = textEditor.document;
+		let markdown = await client.sendRequest(ExplainConfigurationRequest.type, { uri: document.uri.toString() });
+		if (!markdown) {
+			window.showInformationMessage('TSLint: The configuration can only be explained for files that are linted by tslint.');
+			return;
+		}
+		showPreview(`configuration/${encodeURIComponent(path.basename(document.uri.path))}.md`, markdown);
 	}
 
-	function showRuleDocumentation(_uri: string, _documentVersion: number, _edits: TextEdit[], ruleId: string) {
-		const tslintDocBaseURL = "https://palantir.github.io/tslint/rules";
-		if (!ruleId) {
+	async function profileRules() {
+		let textEditor = window.activeTextEditor;
+		if (!serverRunning || !textEditor) {
 			return;
 		}
-		commands.executeCommand('vscode.open', Uri.parse(tslintDocBaseURL + '/' + ruleId));
+		let document = textEditor.document;
+		let markdown = await client.sendRequest(ProfileRulesRequest.type, { uri: document.uri.toString() });
+		if (!markdown) {
+			window.showInformationMessage('TSLint: The rules can only be profiled for files that are linted by tslint.');
+			return;
+		}
+		showPreview(`profile/${encodeURIComponent(path.basename(document.uri.path))}.md`, markdown);
+	}
+
+	function showPreview(previewPath: string, markdown: string) {
+		let previewUri = Uri.parse(`${previewScheme}:/${previewPath}`);
+		previews.set(previewUri.toString(), markdown);
+		previewChanged.fire(previewUri);
+		commands.executeCommand('markdown.showPreview', previewUri);
 	}
 
 	function fixAllProblems(): Thenable<any> | undefined {
@@ -368,6 +514,144 @@ export function activate(context: ExtensionContext) {
 		return doFixAllProblems(textEditor.document, undefined); // no time budget
 	}
 
+	interface FileFixes {
+		uri: Uri;
+		edits: VTextEdit[];
+		documentVersion: number;
+		fixCount: number;
+		overlappingFixes: boolean;
+	}
+
+	/**
+	 * Returns the files of a folder selected in the explorer or of a workspace folder picked by the user
+	 */
+	async function getFolderFilesParams(folderUri: Uri | undefined, noFolderMessage: string, placeHolder: string): Promise<LintableFilesParams | undefined> {
+		let workspaceFolder: WorkspaceFolder | undefined = undefined;
+		if (folderUri) {
+			workspaceFolder = workspace.getWorkspaceFolder(folderUri);
+		} else {
+			let folders = workspace.workspaceFolders;
+			if (!folders) {
+				window.showErrorMessage(noFolderMessage);
+				return undefined;
+			}
+			workspaceFolder = folders.length === 1 ? folders[0] : await window.showWorkspaceFolderPick({ placeHolder });
+		}
+		if (!workspaceFolder) {
+			return undefined;
+		}
+		return {
+			workspaceFolder: workspaceFolder.uri.toString(),
+			folder: folderUri && folderUri.toString() !== workspaceFolder.uri.toString() ? folderUri.toString() : undefined
+		};
+	}
+
+	async function fixAllProblemsInFolder(folderUri?: Uri) {
+		// server is not running so there can be no problems to fix
+		if (!serverRunning) {
+			return;
+		}
+		let params = await getFolderFilesParams(folderUri, 'Problems can only be fixed in the workspace if VS Code is opened on a folder.', 'Select the folder to fix');
+		if (!params) {
+			return;
+		}
+
+		let fixedFiles = await window.withProgress({ location: ProgressLocation.Notification, title: 'TSLint: Fixing all auto-fixable problems', cancellable: true }, async (progress, token) => {
+			let uris = await client.sendRequest(LintableFilesRequest.type, params, token);
+			let result: FileFixes[] = [];
+			for (let each of uris) {
+				if (token.isCancellationRequested) {
+					return undefined;
+				}
+				let uri = Uri.parse(each);
+				progress.report({ message: workspace.asRelativePath(uri), increment: 100 / uris.length });
+				let fixes = await client.sendRequest(AllFixesRequest.type, { textDocument: { uri: each }, isOnSave: false }, token);
+				if (fixes && fixes.edits.length > 0) {
+					result.push({ uri, edits: await client.protocol2CodeConverter.asTextEdits(fixes.edits), documentVersion: fixes.documentVersion, fixCount: fixes.fixCount, overlappingFixes: fixes.overlappingFixes });
+				}
+			}
+			return token.isCancellationRequested ? undefined : result;
+		});
+		if (!fixedFiles) {
+			return;
+		}
+
+		// the fixes of files that have been modified while the fixes were computed are outdated
+		let outdated = fixedFiles.filter(each => {
+			let document = workspace.textDocuments.find(document => document.uri.toString() === each.uri.toString());
+			return each.documentVersion === -1 ? document && document.isDirty : !document || document.version !== each.documentVersion;
+		});
+		let applied = fixedFiles.filter(each => outdated.indexOf(each) === -1);
+		let edit = new WorkspaceEdit();
+		applied.forEach(each => edit.set(each.uri, each.edits));
+		if (applied.length > 0 && !await workspace.applyEdit(edit)) {
+			window.showErrorMessage('TSLint: The fixes could not be applied.');
+			return;
+		}
+
+		let fixCount = 0;
+		client.outputChannel.appendLine(`Fixed all auto-fixable problems in ${Uri.parse(params.folder || params.workspaceFolder).fsPath}:`);
+		for (let each of applied) {
+			fixCount += each.fixCount;
+			let remaining = each.overlappingFixes ? ', not all problems could be fixed' : '';
+			client.outputChannel.appendLine(`  ${workspace.asRelativePath(each.uri)}: ${each.fixCount} fixes${remaining}`);
+		}
+		for (let each of outdated) {
+			client.outputChannel.appendLine(`  ${workspace.asRelativePath(each.uri)}: not fixed, the file was modified`);
+		}
+		let action = await window.showInformationMessage(`TSLint: Fixed ${fixCount} problems in ${applied.length} files.`, 'Show Details');
+		if (action) {
+			client.outputChannel.show();
+		}
+	}
+
+	async function createBaseline(folderUri?: Uri) {
+		if (!serverRunning) {
+			return;
+		}
+		let params = await getFolderFilesParams(folderUri, 'A baseline can only be created if VS Code is opened on a folder.', 'Select the folder to create the baseline for');
+		if (!params) {
+			return;
+		}
+		let filesParams = params;
+		let entries = await window.withProgress({ location: ProgressLocation.Notification, title: 'TSLint: Creating the lint baseline', cancellable: true }, async (progress, token) => {
+			let uris = await client.sendRequest(LintableFilesRequest.type, filesParams, token);
+			let result: BaselineEntry[] = [];
+			for (let each of uris) {
+				if (token.isCancellationRequested) {
+					return undefined;
+				}
+				progress.report({ message: workspace.asRelativePath(Uri.parse(each)), increment: 100 / uris.length });
+				let fileEntries = await client.sendRequest(BaselineEntriesRequest.type, { uri: each }, token);
+				if (fileEntries) {
+					result.push(...fileEntries);
+				}
+			}
+			return token.isCancellationRequested ? undefined : result;
+		});
+		if (!entries) {
+			return;
+		}
+		let baselinePath: string;
+		try {
+			baselinePath = await client.sendRequest(WriteBaselineRequest.type, { ...params, entries });
+		} catch (err) {
+			window.showErrorMessage(`TSLint: The baseline could not be written: ${err.message}`);
+			return;
+		}
+		let fileCount = new Set(entries.map(each => each.file)).size;
+		let message = `TSLint: Recorded ${entries.length} failures of ${fileCount} files in ${workspace.asRelativePath(baselinePath)}.`;
+		let config = workspace.getConfiguration('tslint', Uri.parse(params.workspaceFolder));
+		if (config.get('useBaseline', false)) {
+			window.showInformationMessage(message);
+			return;
+		}
+		let action = await window.showInformationMessage(`${message} Enable the baseline to hide these failures?`, 'Enable');
+		if (action) {
+			await config.update('useBaseline', true, ConfigurationTarget.WorkspaceFolder);
+		}
+	}
+
 	function exists(file: string): Promise<boolean> {
 		return new Promise<boolean>((resolve, _reject) => {
 			fs.exists(file, (value) => {
@@ -427,6 +711,27 @@ export function activate(context: ExtensionContext) {
 		}
 	}
 
+	async function exportSarifLog() {
+		// server is not running so there are no problems to export
+		if (!serverRunning) {
+			return;
+		}
+		let log = await client.sendRequest(SarifRequest.type);
+		let folders = workspace.workspaceFolders;
+		let target = await window.showSaveDialog({
+			defaultUri: folders && folders.length > 0 ? Uri.joinPath(folders[0].uri, 'tslint.sarif') : undefined,
+			filters: { 'SARIF log': ['sarif', 'json'] }
+		});
+		if (!target) {
+			return;
+		}
+		try {
+			await workspace.fs.writeFile(target, Buffer.from(JSON.stringify(log, undefined, 2), 'utf8'));
+		} catch (err) {
+			window.showErrorMessage(`Could not write the SARIF log to ${target.fsPath}: ${err.message}`);
+		}
+	}
+
 	function willSaveTextDocument(e: TextDocumentWillSaveEvent) {
 		let config = workspace.getConfiguration('tslint', e.document.uri);
 		let autoFix = config.get('autoFixOnSave', false);
@@ -447,79 +752,63 @@ export function activate(context: ExtensionContext) {
 		updateStatusBarVisibility(window.activeTextEditor);
 	}
 
-	function doFixAllProblems(document: TextDocument, timeBudget: number | undefined): Thenable<any> {
-		let start = Date.now();
-		let loopCount = 0;
-		let retry = false;
-		let lastVersion = document.version;
-
-		let promise = client.sendRequest(AllFixesRequest.type, { textDocument: { uri: document.uri.toString() }, isOnSave: true }).then(async (result) => {
-			while (true) {
-				// console.log('duration ', Date.now() - start);
-				if (timeBudget && Date.now() - start > timeBudget) {
-					console.log(`TSLint auto fix on save maximum time budget (${timeBudget}ms) exceeded.`);
-					break;
-				}
-				if (loopCount++ > 10) {
-					console.log(`TSLint auto fix on save maximum retries exceeded.`);
-					break;
-				}
-				if (result) {
-					// ensure that document versions on the client are in sync
-					if (lastVersion !== document.version) {
-						window.showInformationMessage("TSLint: Auto fix on save, fixes could not be applied (client version mismatch).");
-						break;
-					}
-					retry = false;
-					if (lastVersion !== result.documentVersion) {
-						console.log('TSLint auto fix on save, server document version different than client version');
-						retry = true;  // retry to get the fixes matching the document
-					} else {
-						// try to apply the edits from the server
-						let edits = client.protocol2CodeConverter.asTextEdits(result.edits);
-						// disable version check by passing -1 as the version, the event loop is blocked during `willSave`
-						let success = await applyTextEdits(document.uri.toString(), -1, edits);
-						if (!success) {
-							window.showInformationMessage("TSLint: Auto fix on save, edits could not be applied");
-							break;
-						}
-					}
-
-					lastVersion = document.version;
-
-					if (result.overlappingFixes || retry) {
-						// ask for more non overlapping fixes
-						result = await client.sendRequest(AllFixesRequest.type, { textDocument: { uri: document.uri.toString() }, isOnSave: true });
-					} else {
-						break;
-					}
-				} else {
-					break;
-				}
-			}
+	async function doFixAllProblems(document: TextDocument, timeBudget: number | undefined): Promise<any> {
+		let version = document.version;
+		// the server applies the fixes repeatedly until no fixes remain and returns the combined edits
+		let result = await client.sendRequest(AllFixesRequest.type, { textDocument: { uri: document.uri.toString() }, isOnSave: true, timeBudget });
+		if (!result) {
 			return null;
-		});
-		return promise;
+		}
+		// ensure that document versions on the client are in sync
+		if (version !== document.version || result.documentVersion !== document.version) {
+			window.showInformationMessage("TSLint: Auto fix on save, fixes could not be applied (client version mismatch).");
+			return null;
+		}
+		if (result.overlappingFixes) {
+			console.log('TSLint auto fix on save, not all fixes could be applied');
+		}
+		let edits = await client.protocol2CodeConverter.asTextEdits(result.edits);
+		// disable version check by passing -1 as the version, the event loop is blocked during `willSave`
+		let success = await applyTextEdits(document.uri.toString(), -1, edits);
+		if (!success) {
+			window.showInformationMessage("TSLint: Auto fix on save, edits could not be applied");
+		}
+		return null;
 	}
 
+	// the documentation of the rules and the explained configurations shown in a markdown preview, key is the URI of the preview
+	let previews = new Map<string, string>();
+	let previewChanged = new EventEmitter<Uri>();
+	let previewProvider = workspace.registerTextDocumentContentProvider(previewScheme, {
+		onDidChange: previewChanged.event,
+		provideTextDocumentContent: (uri: Uri) => previews.get(uri.toString())
+	});
+
 	configurationChangedListener = workspace.onDidChangeConfiguration(configurationChanged);
 	willSaveTextDocumentListener = workspace.onWillSaveTextDocument(willSaveTextDocument);
 	configurationChanged();
 
+	client.start();
 	context.subscriptions.push(
-		client.start(),
+		client,
 		configurationChangedListener,
 		willSaveTextDocumentListener,
+		previewProvider,
+		previewChanged,
 		// internal commands
 		commands.registerCommand('_tslint.applySingleFix', applyTextEdits),
 		commands.registerCommand('_tslint.applySameFixes', applyTextEdits),
 		commands.registerCommand('_tslint.applyAllFixes', fixAllProblems),
-		commands.registerCommand('_tslint.applyDisableRule', applyDisableRuleEdit),
 		commands.registerCommand('_tslint.showRuleDocumentation', showRuleDocumentation),
 		// user commands
 		commands.registerCommand('tslint.fixAllProblems', fixAllProblems),
+		commands.registerCommand('tslint.fixAllProblemsInFolder', fixAllProblemsInFolder),
 		commands.registerCommand('tslint.createConfig', createDefaultConfiguration),
 		commands.registerCommand('tslint.showOutputChannel', () => { client.outputChannel.show(); }),
+		commands.registerCommand('tslint.exportSarif', exportSarifLog),
+		commands.registerCommand('tslint.explainConfiguration', explainConfiguration),
+		commands.registerCommand('tslint.profileRules', profileRules),
+		commands.registerCommand('tslint.createBaseline', createBaseline),
 		statusBarItem
 	);
 }